@@ -1,46 +1,545 @@
 import {
   App,
+  CachedMetadata,
+  Component,
+  EventRef,
+  Events,
   ItemView,
+  Keymap,
+  ListItemCache,
+  MarkdownRenderChild,
+  Menu,
+  Modal,
+  Notice,
+  PaneType,
   Plugin,
   PluginSettingTab,
   Setting,
   TFile,
+  ViewStateResult,
   WorkspaceLeaf,
+  debounce,
+  getAllTags,
   moment,
+  normalizePath,
+  parseYaml,
+  setIcon,
 } from "obsidian";
 
 const VIEW_TYPE_LINEAR_CALENDAR = "linear-calendar-view";
 
+const HEATMAP_METRIC_LABELS: Record<HeatmapMetric, string> = {
+  events: "Events per day",
+  notes: "Notes created or modified",
+  words: "Daily note words",
+  property: "Property total",
+};
+
+// Number of intensity steps in heatmap mode, excluding empty days
+const HEATMAP_LEVELS = 4;
+
+// Upper bound for rolling and custom ranges, to keep the grid renderable
+const MAX_DISPLAY_MONTHS = 120;
+
+// Touch gestures: how long a press opens the day details, how far it may drift,
+// and how far a horizontal swipe in the header must travel to change the range
+const LONG_PRESS_MS = 500;
+const LONG_PRESS_TOLERANCE = 10;
+const SWIPE_DISTANCE = 60;
+
+// English weekday names in getDay() order, used by the weekend setting
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Theme palette names that map to Obsidian's --color-* variables
+const NAMED_EVENT_COLORS = ["red", "orange", "yellow", "green", "cyan", "blue", "purple", "pink"];
+
+// Tasks plugin date markers: due, scheduled, start
+const TASK_EMOJI_FIELDS: Record<string, string> = {
+  "📅": "due",
+  "⏳": "scheduled",
+  "🛫": "start",
+};
+const TASK_EMOJI_DATE = /(📅|⏳|🛫)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/gu;
+
+// Dataview inline fields: "key:: value" on its own line, or [key:: value] / (key:: value)
+const INLINE_FIELD = /(?:^|[[(])\s*([\w -]+?)::\s*([^\])]*?)\s*(?:[\])]|$)/g;
+const LIST_ITEM_PREFIX = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/;
+
+type EventSource = "daily-note" | "frontmatter" | "file-created" | "task" | "inline-field" | "ics" | "external";
+
+const SOURCE_LABELS: Record<EventSource, string> = {
+  "daily-note": "Daily note",
+  frontmatter: "Frontmatter",
+  "file-created": "Created",
+  task: "Task",
+  "inline-field": "Inline field",
+  ics: "Calendar file",
+  external: "Other plugin",
+};
+
+// Public holidays on their actual dates, without weekend substitutes
+const HOLIDAY_SETS: Record<string, { label: string; rules: HolidayRule[] }> = {
+  us: {
+    label: "United States (federal)",
+    rules: [
+      { name: "New Year's Day", month: 0, day: 1 },
+      { name: "Martin Luther King Jr. Day", month: 0, weekday: 1, nth: 3 },
+      { name: "Presidents' Day", month: 1, weekday: 1, nth: 3 },
+      { name: "Memorial Day", month: 4, weekday: 1, nth: -1 },
+      { name: "Juneteenth", month: 5, day: 19 },
+      { name: "Independence Day", month: 6, day: 4 },
+      { name: "Labor Day", month: 8, weekday: 1, nth: 1 },
+      { name: "Columbus Day", month: 9, weekday: 1, nth: 2 },
+      { name: "Veterans Day", month: 10, day: 11 },
+      { name: "Thanksgiving", month: 10, weekday: 4, nth: 4 },
+      { name: "Christmas Day", month: 11, day: 25 },
+    ],
+  },
+  gb: {
+    label: "United Kingdom (England and Wales)",
+    rules: [
+      { name: "New Year's Day", month: 0, day: 1 },
+      { name: "Good Friday", easterOffset: -2 },
+      { name: "Easter Monday", easterOffset: 1 },
+      { name: "Early May bank holiday", month: 4, weekday: 1, nth: 1 },
+      { name: "Spring bank holiday", month: 4, weekday: 1, nth: -1 },
+      { name: "Summer bank holiday", month: 7, weekday: 1, nth: -1 },
+      { name: "Christmas Day", month: 11, day: 25 },
+      { name: "Boxing Day", month: 11, day: 26 },
+    ],
+  },
+  de: {
+    label: "Germany (nationwide)",
+    rules: [
+      { name: "New Year's Day", month: 0, day: 1 },
+      { name: "Good Friday", easterOffset: -2 },
+      { name: "Easter Monday", easterOffset: 1 },
+      { name: "Labour Day", month: 4, day: 1 },
+      { name: "Ascension Day", easterOffset: 39 },
+      { name: "Whit Monday", easterOffset: 50 },
+      { name: "German Unity Day", month: 9, day: 3 },
+      { name: "Christmas Day", month: 11, day: 25 },
+      { name: "Second Day of Christmas", month: 11, day: 26 },
+    ],
+  },
+  fr: {
+    label: "France",
+    rules: [
+      { name: "New Year's Day", month: 0, day: 1 },
+      { name: "Easter Monday", easterOffset: 1 },
+      { name: "Labour Day", month: 4, day: 1 },
+      { name: "Victory in Europe Day", month: 4, day: 8 },
+      { name: "Ascension Day", easterOffset: 39 },
+      { name: "Whit Monday", easterOffset: 50 },
+      { name: "Bastille Day", month: 6, day: 14 },
+      { name: "Assumption of Mary", month: 7, day: 15 },
+      { name: "All Saints' Day", month: 10, day: 1 },
+      { name: "Armistice Day", month: 10, day: 11 },
+      { name: "Christmas Day", month: 11, day: 25 },
+    ],
+  },
+};
+
+// iCalendar weekday codes in getDay() order
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Open-ended recurrences are expanded this many years past today
+// or until this many occurrences when no range bounds them
+const ICS_EXPANSION_YEARS = 3;
+const ICS_MAX_OCCURRENCES = 1000;
+
 interface CalendarEvent {
   title: string;
-  file: TFile;
+  /** Backing note; only events from other plugins may have none */
+  file?: TFile;
+  source: EventSource;
   startDate: Date;
   endDate?: Date;
   color?: string;
+  /** Frontmatter key, inline field or task marker that produced the date */
+  field?: string;
+  /** Frontmatter key that produced the end date of a range */
+  endField?: string;
+  /** Zero-based line in the note for task and inline-field events */
+  line?: number;
+  /** Completion state for task events */
+  completed?: boolean;
+  /** Tags of the source note, without the leading "#" */
+  tags?: string[];
+  /** UID of the VEVENT for events read from .ics files */
+  uid?: string;
+  /** Body word count of daily notes, read only for the words heatmap */
+  wordCount?: number;
+  /** Start time was given with the date, so the event is shown with it */
+  hasTime?: boolean;
+  /** Position of the date in a list-valued frontmatter field */
+  valueIndex?: number;
+  /** Repeat rule of the note, set on each occurrence of a repeating event */
+  recurrence?: string;
+  /** Id of the provider that supplied an external event */
+  provider?: string;
+  /** Replaces opening the note when an external event is clicked */
+  onClick?: (paneType: PaneType | boolean) => void;
+}
+
+/** An event returned by a provider registered through the plugin API */
+export interface ExternalCalendarEvent {
+  title: string;
+  startDate: Date;
+  /** Inclusive last day; set it to show the event as a multi-day bar */
+  endDate?: Date;
+  /** Theme color name such as "red", or any CSS color */
+  color?: string;
+  /** Tags without the leading "#", used by the tag filter */
+  tags?: string[];
+  /** Stable id, used as the UID when the event is exported */
+  id?: string;
+  /** Note opened on click when there is no onClick handler */
+  file?: TFile;
+  /** Called when the event is clicked, with the pane type the click asked for */
+  onClick?: (paneType: PaneType | boolean) => void;
+}
+
+/**
+ * Supplies events from outside the vault's notes. Other plugins register one
+ * with `registerEventProvider()` on the Linear Calendar plugin instance.
+ */
+export interface CalendarEventProvider {
+  /** Unique id, also used to remember whether the source is enabled */
+  id: string;
+  /** Name shown in the settings and the day details */
+  name: string;
+  /** Returns the events that touch the inclusive range of days */
+  getEvents(start: Date, end: Date): ExternalCalendarEvent[] | Promise<ExternalCalendarEvent[]>;
+}
+
+interface IcsDate {
+  date: Date;
+  allDay: boolean;
+}
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDate;
+  /** Extra days after the start day, 0 for single-day events */
+  days: number;
+  rrule?: Record<string, string>;
+  /** Date keys excluded from the recurrence */
+  exdates: Set<string>;
+}
+
+/** A named span of days shaded behind the grid, separate from note events */
+interface DateShading {
+  name: string;
+  start: Date;
+  end: Date;
+  color?: string;
+  holiday: boolean;
+}
+
+/** A shaded range as entered in the settings, with YYYY-MM-DD dates */
+interface ShadedRangeSetting {
+  name: string;
+  start: string;
+  end: string;
+  color: string;
+}
+
+/**
+ * Month is zero-based and weekday in getDay() order. An nth of -1 means the
+ * last such weekday of the month; Easter offsets count days from Easter Sunday.
+ */
+type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; month: number; weekday: number; nth: number }
+  | { name: string; easterOffset: number };
+
+interface CalendarFilter {
+  text: string;
+  tags: string;
+}
+
+type ColorRuleType = "tag" | "folder" | "property" | "source";
+
+interface ColorRule {
+  type: ColorRuleType;
+  match: string;
+  color: string;
+  label: string;
+}
+
+interface DateRangeField {
+  start: string;
+  end: string;
+}
+
+interface DateRange {
+  field: DateRangeField;
+  start: Date;
+  end?: Date;
+}
+
+/** Date formats tried for one field instead of the global list */
+interface FieldDateFormats {
+  field: string;
+  formats: string[];
+}
+
+interface ParsedDate {
+  date: Date;
+  /** Whether the value had a time of day, not just a date */
+  hasTime: boolean;
+}
+
+/** A value in a configured date field that couldn't be read as a date */
+interface DateIssue {
+  field: string;
+  value: string;
+  /** Zero-based line for inline fields */
+  line?: number;
+}
+
+type RescheduleUndo =
+  | { kind: "frontmatter"; file: TFile; values: Record<string, unknown> }
+  /** `text` is restored only while the line still reads `changed` */
+  | { kind: "line"; file: TFile; line: number; text: string; changed: string }
+  | { kind: "rename"; file: TFile; path: string };
+
+interface MonthRow {
+  el: HTMLElement;
+  daysContainer: HTMLElement;
+  year: number;
+  month: number;
+  offset: number;
+  /** Grid width the row was built for; rows are rebuilt when it changes */
+  maxColumns: number;
+  showYear: boolean;
+  /** Whether the day contents and range bars are drawn, which waits until the row is near the viewport */
+  rendered: boolean;
+}
+
+type ScaleKey = "scaleX" | "scaleY" | "fontScale";
+
+/**
+ * A touch gesture in progress. A pinch scales the axis it started along, or
+ * both axes for a diagonal one, around the content point between the fingers.
+ */
+type TouchGesture =
+  | { kind: "press"; x: number; y: number; timer: number; fired: boolean }
+  | { kind: "swipe"; x: number; y: number }
+  | {
+      kind: "pinch";
+      axis: "x" | "y" | "both";
+      dx: number;
+      dy: number;
+      distance: number;
+      scaleX: number;
+      scaleY: number;
+      /** Scrolled content position under the fingers when the pinch started */
+      anchorX: number;
+      anchorY: number;
+    };
+
+interface RangeSegment {
+  event: CalendarEvent;
+  startCol: number;
+  span: number;
+  lane: number;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+type NotePeriod = "day" | "week" | "month";
+
+const NOTE_PERIOD_LABELS: Record<NotePeriod, string> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+};
+
+interface PeriodicNoteConfig {
+  folder: string;
+  format: string;
+  template: string;
+}
+
+/** The subset of the core Daily Notes plugin options that the calendar follows */
+interface CoreDailyNotesOptions {
+  folder?: string;
+  format?: string;
+  template?: string;
 }
 
+/** The parts of core plugins the calendar uses: daily notes options and the file explorer */
+interface InternalPlugins {
+  getPluginById(id: string): {
+    enabled: boolean;
+    instance?: { options?: CoreDailyNotesOptions; revealInFolder?: (file: TFile) => void };
+  } | null;
+}
+
+type RangeMode = "calendar" | "fiscal" | "rolling" | "custom";
+
+type HeatmapMetric = "events" | "notes" | "words" | "property";
+
 interface LinearCalendarSettings {
   dailyNotesFolder: string;
   dailyNoteFormat: string;
+  dailyNoteTemplate: string;
+  useCoreDailyNotes: boolean;
+  confirmNoteCreation: boolean;
+  showWeekNumbers: boolean;
+  weeklyNotesFolder: string;
+  weeklyNoteFormat: string;
+  weeklyNoteTemplate: string;
+  monthlyNotesFolder: string;
+  monthlyNoteFormat: string;
+  monthlyNoteTemplate: string;
   dateFields: string[];
+  dateFormats: string[];
+  fieldDateFormats: FieldDateFormats[];
+  rangeFields: DateRangeField[];
+  showDailyNotes: boolean;
+  showFrontmatterDates: boolean;
   showFileCreationDates: boolean;
-  year: number;
+  showTaskDates: boolean;
+  inlineDateFields: string[];
+  icsPaths: string[];
+  icsNotesFolder: string;
+  eventNotesFolder: string;
+  eventNoteTemplate: string;
+  repeatField: string;
+  disabledProviders: string[];
+  holidaySets: string[];
+  shadingFile: string;
+  shadedRanges: ShadedRangeSetting[];
+  exportFolder: string;
+  includeFolders: string[];
+  excludeFolders: string[];
+  includeTags: string[];
+  excludeTags: string[];
+  colorField: string;
+  colorRules: ColorRule[];
+  rangeMode: RangeMode;
+  fiscalStartMonth: number;
+  rollingMonths: number;
+  customStart: string;
+  customEnd: string;
+  heatmap: boolean;
+  heatmapMetric: HeatmapMetric;
+  heatmapProperty: string;
+  firstDayOfWeek: number;
+  weekendDays: number[];
   weekdayLabels: string[];
   monthLabels: string[];
-  scaleX: number;
-  scaleY: number;
-  fontScale: number;
   defaultScaleX: number;
   defaultScaleY: number;
   defaultFontScale: number;
 }
 
+type PeriodicNoteSettingKey =
+  | "weeklyNotesFolder"
+  | "weeklyNoteFormat"
+  | "weeklyNoteTemplate"
+  | "monthlyNotesFolder"
+  | "monthlyNoteFormat"
+  | "monthlyNoteTemplate";
+
+/** Display settings that an embedded calendar keeps for itself */
+type CalendarOverrides = Partial<
+  Pick<
+    LinearCalendarSettings,
+    | "rangeMode"
+    | "fiscalStartMonth"
+    | "rollingMonths"
+    | "customStart"
+    | "customEnd"
+    | "heatmap"
+    | "heatmapMetric"
+    | "heatmapProperty"
+  >
+>;
+
+/**
+ * Where one calendar is navigated to and how far it is zoomed. Each tab keeps
+ * its own in the workspace layout, and each embed for as long as it is shown.
+ */
+interface CalendarViewState {
+  year: number;
+  /** Periods moved away from the configured rolling or custom range */
+  rangeShift: number;
+  scaleX: number;
+  scaleY: number;
+  fontScale: number;
+}
+
+const VIEW_STATE_KEYS: (keyof CalendarViewState)[] = ["year", "rangeShift", "scaleX", "scaleY", "fontScale"];
+
+/** Limits a calendar to notes in some folders or with some tags, or to some date fields */
+interface CalendarScope {
+  folders: string[];
+  tags: string[];
+  fields: string[];
+}
+
+interface CalendarOptions {
+  embedded?: boolean;
+  overrides?: CalendarOverrides;
+  scope?: Partial<CalendarScope>;
+  state?: Partial<CalendarViewState>;
+  filter?: Partial<CalendarFilter>;
+  /** Called when the view state or filter changes, so the host can save them */
+  onStateChange?: () => void;
+}
+
 const DEFAULT_SETTINGS: LinearCalendarSettings = {
   dailyNotesFolder: "",
   dailyNoteFormat: "YYYY-MM-DD",
+  dailyNoteTemplate: "",
+  useCoreDailyNotes: false,
+  confirmNoteCreation: false,
+  showWeekNumbers: false,
+  weeklyNotesFolder: "",
+  weeklyNoteFormat: "GGGG-[W]WW",
+  weeklyNoteTemplate: "",
+  monthlyNotesFolder: "",
+  monthlyNoteFormat: "YYYY-MM",
+  monthlyNoteTemplate: "",
   dateFields: ["date", "created", "due"],
+  dateFormats: ["YYYY-MM-DD", "YYYY-MM-DDTHH:mm", "YYYY-MM-DDTHH:mm:ss", "YYYY-MM-DD HH:mm", "YYYY-MM-DDTHH:mm:ssZ"],
+  fieldDateFormats: [],
+  rangeFields: [{ start: "start", end: "end" }],
+  showDailyNotes: true,
+  showFrontmatterDates: true,
   showFileCreationDates: true,
-  year: new Date().getFullYear(),
+  showTaskDates: true,
+  inlineDateFields: [],
+  icsPaths: [],
+  icsNotesFolder: "",
+  eventNotesFolder: "",
+  eventNoteTemplate: "",
+  repeatField: "repeat",
+  disabledProviders: [],
+  holidaySets: [],
+  shadingFile: "",
+  shadedRanges: [],
+  exportFolder: "",
+  includeFolders: [],
+  excludeFolders: [],
+  includeTags: [],
+  excludeTags: [],
+  colorField: "color",
+  colorRules: [],
+  rangeMode: "calendar",
+  fiscalStartMonth: 3,
+  rollingMonths: 12,
+  customStart: "",
+  customEnd: "",
+  heatmap: false,
+  heatmapMetric: "events",
+  heatmapProperty: "",
+  firstDayOfWeek: 1,
+  weekendDays: [0, 6],
   weekdayLabels: ["M", "T", "W", "T", "F", "S", "S"],
   monthLabels: [
     "Jan",
@@ -56,567 +555,4454 @@ const DEFAULT_SETTINGS: LinearCalendarSettings = {
     "Nov",
     "Dec",
   ],
-  scaleX: 1,
-  scaleY: 1,
-  fontScale: 1,
   defaultScaleX: 1,
   defaultScaleY: 1,
   defaultFontScale: 1,
 };
 
-export default class LinearCalendarPlugin extends Plugin {
-  settings: LinearCalendarSettings = DEFAULT_SETTINGS;
-
-  async onload(): Promise<void> {
-    await this.loadSettings();
-
-    this.registerView(
-      VIEW_TYPE_LINEAR_CALENDAR,
-      (leaf) => new LinearCalendarView(leaf, this)
-    );
-
-    this.addCommand({
-      id: "open-view",
-      name: "Open calendar view",
-      callback: () => void this.activateView(),
-    });
-
-    this.addSettingTab(new LinearCalendarSettingTab(this.app, this));
-
-    this.addRibbonIcon("calendar-days", "Open calendar view", () => {
-      void this.activateView();
-    });
+/**
+ * Tests a vault path or tag against a glob. "*" stays within one path segment,
+ * "**" crosses segments, and a pattern also matches everything nested below it.
+ */
+function matchesGlob(value: string, glob: string): boolean {
+  const pattern = glob.trim().replace(/^[#/]+|\/+$/g, "");
+  if (!pattern) {
+    return false;
   }
+  const source = pattern
+    .split("**")
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, "[^/]*")
+        .replace(/\?/g, "[^/]")
+    )
+    .join(".*");
+  return new RegExp(`^${source}(?:/.*)?$`, "i").test(value);
+}
 
-  async activateView(): Promise<void> {
-    const { workspace } = this.app;
-
-    let leaf: WorkspaceLeaf | null = null;
-    const leaves = workspace.getLeavesOfType(VIEW_TYPE_LINEAR_CALENDAR);
+// Formats recognized when rewriting a date so the note keeps its original style
+const DATE_VALUE_FORMATS = [
+  "YYYY-MM-DD",
+  "YYYY-MM-DDTHH:mm",
+  "YYYY-MM-DDTHH:mm:ss",
+  "YYYY-MM-DD HH:mm",
+  "YYYY-MM-DD HH:mm:ss",
+  "YYYY/MM/DD",
+  "DD.MM.YYYY",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "MMMM D, YYYY",
+  "D MMMM YYYY",
+];
 
-    if (leaves.length > 0) {
-      leaf = leaves[0];
-    } else {
-      leaf = workspace.getLeaf("tab");
-      if (leaf) {
-        await leaf.setViewState({
-          type: VIEW_TYPE_LINEAR_CALENDAR,
-          active: true,
-        });
-      }
-    }
+// A wiki-link split into its opening brackets and folder, the note name, and its heading, alias and closing brackets
+const WIKI_LINK = /^(\[\[(?:[^\]|#]*\/)?)([^\]|#/]+)((?:#[^\]|]*)?(?:\|[^\]]*)?\]\])$/;
 
-    if (leaf) {
-      void workspace.revealLeaf(leaf);
+/**
+ * Moves a date value by whole days, keeping its time of day and, for strings,
+ * the format it was written in. A wiki-link keeps its brackets and alias.
+ */
+function shiftDateValue(value: unknown, days: number, formats: string[] = DATE_VALUE_FORMATS): string | null {
+  if (typeof value === "string" || typeof value === "number") {
+    const text = String(value).trim();
+    const link = text.match(WIKI_LINK);
+    const date = link ? link[2].trim() : text;
+    const format = formats.find((f) => moment(date, f, true).isValid());
+    if (!format) {
+      return null;
     }
+    const shifted = moment(date, format, true).add(days, "days").format(format);
+    return link ? `${link[1]}${shifted}${link[3]}` : shifted;
   }
-
-  async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-  }
-
-  async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+  const parsed = parseDateValue(value, []);
+  if (parsed) {
+    return moment(parsed.date).add(days, "days").format(parsed.hasTime ? "YYYY-MM-DDTHH:mm" : "YYYY-MM-DD");
   }
+  return null;
 }
 
-class LinearCalendarView extends ItemView {
-  plugin: LinearCalendarPlugin;
-  private events: Map<string, CalendarEvent[]> = new Map();
-
-  constructor(leaf: WorkspaceLeaf, plugin: LinearCalendarPlugin) {
-    super(leaf);
-    this.plugin = plugin;
+/**
+ * Finds a task's emoji date or an inline date field on a line that falls on
+ * the given day: where the whole match starts and ends, and where its date
+ * value starts. Inline values are read with the field's formats.
+ */
+function findBodyDate(
+  text: string,
+  field: string,
+  date: Date,
+  formats: string[]
+): { start: number; end: number; value: string; valueStart: number } | null {
+  const emojiDate = moment(date).format("YYYY-MM-DD");
+  for (const match of Array.from(text.matchAll(TASK_EMOJI_DATE))) {
+    const start = match.index ?? 0;
+    if (TASK_EMOJI_FIELDS[match[1]] === field && match[2] === emojiDate) {
+      const end = start + match[0].length;
+      return { start, end, value: match[2], valueStart: end - match[2].length };
+    }
   }
 
-  getViewType(): string {
-    return VIEW_TYPE_LINEAR_CALENDAR;
+  const prefix = text.match(LIST_ITEM_PREFIX)?.[0] ?? "";
+  const body = text.slice(prefix.length);
+  for (const match of Array.from(body.matchAll(INLINE_FIELD))) {
+    const start = prefix.length + (match.index ?? 0);
+    const parsed = match[1].trim().toLowerCase() === field ? parseDateValue(match[2], formats) : null;
+    if (parsed && moment(parsed.date).isSame(date, "day")) {
+      const valueStart = start + match[0].indexOf(match[2], match[0].indexOf("::") + 2);
+      return { start, end: start + match[0].length, value: match[2], valueStart };
+    }
   }
+  return null;
+}
 
-  getDisplayText(): string {
-    return "Linear calendar";
+/**
+ * Removes a task's emoji date or an inline date field from a line, or returns
+ * null when the line no longer has that date.
+ */
+function removeBodyDate(text: string, field: string, date: Date, formats: string[] = DATE_VALUE_FORMATS): string | null {
+  const found = findBodyDate(text, field, date, formats);
+  if (!found) {
+    return null;
   }
+  const prefixLength = Math.min(found.start, text.match(LIST_ITEM_PREFIX)?.[0].length ?? 0);
+  const before = text.slice(prefixLength, found.start);
+  const after = text.slice(found.end);
+  const joined = before.trimEnd() ? before.trimEnd() + after : before + after.trimStart();
+  return (text.slice(0, prefixLength) + joined).trimEnd();
+}
 
-  getIcon(): string {
-    return "calendar-days";
+/**
+ * Moves a task's emoji date or an inline date field by whole days, keeping the
+ * format it was written in, or returns null when the line no longer has that date.
+ */
+function shiftBodyDate(
+  text: string,
+  field: string,
+  date: Date,
+  days: number,
+  formats: string[] = DATE_VALUE_FORMATS
+): string | null {
+  const found = findBodyDate(text, field, date, formats);
+  const value = found ? shiftDateValue(found.value, days, ["YYYY-MM-DD", ...formats]) : null;
+  if (!found || value === null) {
+    return null;
   }
+  return text.slice(0, found.valueStart) + value + text.slice(found.valueStart + found.value.length);
+}
 
-  async onOpen(): Promise<void> {
-    this.loadEvents();
-    this.render();
-
-    this.registerEvent(
-      this.app.vault.on("create", () => void this.refresh())
-    );
-    this.registerEvent(
-      this.app.vault.on("delete", () => void this.refresh())
-    );
-    this.registerEvent(
-      this.app.vault.on("rename", () => void this.refresh())
-    );
-    this.registerEvent(
-      this.app.metadataCache.on("changed", () => void this.refresh())
-    );
+/**
+ * Strictly parses one date value with the first format that matches it.
+ * Numbers are matched as text, a wiki-link by the name of the note it points
+ * to, and a YAML date without a time by its calendar day, not the UTC instant.
+ */
+function parseDateValue(value: unknown, formats: string[], linkFormats: string[] = formats): ParsedDate | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      return null;
+    }
+    const hasTime = value.getUTCHours() !== 0 || value.getUTCMinutes() !== 0 || value.getUTCSeconds() !== 0;
+    return {
+      date: hasTime ? value : new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()),
+      hasTime,
+    };
+  }
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
   }
 
-  private refresh(): void {
-    this.loadEvents();
-    this.render();
+  const text = String(value).trim();
+  const link = text.match(WIKI_LINK);
+  const date = link ? link[2].trim() : text;
+  for (const format of link ? linkFormats : formats) {
+    const parsed = moment(date, format, true);
+    if (parsed.isValid()) {
+      // Bracketed text is literal, so "[W]" or "[at]" don't count as time tokens
+      return { date: parsed.toDate(), hasTime: /[Hhkm]/.test(format.replace(/\[[^\]]*\]/g, "")) };
+    }
   }
+  return null;
+}
 
-  private loadEvents(): void {
-    this.events.clear();
-    const files = this.app.vault.getMarkdownFiles();
+/**
+ * Parses the VEVENTs of an iCalendar file. Folded lines are unfolded, and
+ * TZID-qualified times are read as local wall-clock times.
+ */
+function parseIcs(content: string): IcsEvent[] {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let end: IcsDate | null = null;
 
-    for (const file of files) {
-      const dates = this.extractDatesFromFile(file);
-      for (const date of dates) {
-        const key = this.dateKey(date);
-        if (!this.events.has(key)) {
-          this.events.set(key, []);
-        }
-        this.events.get(key)?.push({
-          title: file.basename,
-          file,
-          startDate: date,
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = { summary: "", uid: "", exdates: new Set() };
+      end = null;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      const start = current.start;
+      if (start) {
+        events.push({
+          uid: current.uid ?? "",
+          summary: current.summary || "Untitled event",
+          start,
+          days: end ? icsDurationDays(start, end) : 0,
+          rrule: current.rrule,
+          exdates: current.exdates ?? new Set(),
         });
       }
+      current = null;
+      continue;
     }
-  }
-
-  private extractDatesFromFile(file: TFile): Date[] {
-    const dates: Date[] = [];
-    const settings = this.plugin.settings;
 
-    // Check if it's a daily note
-    const dailyDate = this.parseDailyNoteDate(file);
-    if (dailyDate) {
-      dates.push(dailyDate);
+    const colon = line.indexOf(":");
+    if (colon === -1) {
+      continue;
     }
+    const [name, ...params] = line.slice(0, colon).split(";");
+    const value = line.slice(colon + 1);
 
-    // Check frontmatter date fields
-    const cache = this.app.metadataCache.getFileCache(file);
-    if (cache?.frontmatter) {
-      for (const field of settings.dateFields) {
-        const value = cache.frontmatter[field];
-        if (value) {
-          const parsed = this.parseDate(value);
+    switch (name.toUpperCase()) {
+      case "SUMMARY":
+        // One pass, so an escaped backslash before "n" stays a backslash
+        current.summary = value
+          .replace(/\\([,;\\nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? " " : char))
+          .trim();
+        break;
+      case "UID":
+        current.uid = value.trim();
+        break;
+      case "DTSTART":
+        current.start = parseIcsDate(value, params) ?? undefined;
+        break;
+      case "DTEND":
+        end = parseIcsDate(value, params);
+        break;
+      case "RRULE":
+        current.rrule = {};
+        for (const part of value.split(";")) {
+          const [key, ruleValue] = part.split("=");
+          if (key && ruleValue) {
+            current.rrule[key.toUpperCase()] = ruleValue;
+          }
+        }
+        break;
+      case "EXDATE":
+        for (const exdate of value.split(",")) {
+          const parsed = parseIcsDate(exdate, params);
           if (parsed) {
-            dates.push(parsed);
+            current.exdates?.add(dateKey(parsed.date));
           }
         }
-      }
+        break;
     }
+  }
 
-    // Check file creation date
-    if (settings.showFileCreationDates && dates.length === 0) {
-      dates.push(new Date(file.stat.ctime));
-    }
+  return events;
+}
 
-    return dates;
+function parseIcsDate(value: string, params: string[]): IcsDate | null {
+  const text = value.trim();
+  if (params.some((p) => p.toUpperCase() === "VALUE=DATE") || /^\d{8}$/.test(text)) {
+    const date = moment(text, "YYYYMMDD", true);
+    return date.isValid() ? { date: date.toDate(), allDay: true } : null;
   }
+  const date = text.endsWith("Z")
+    ? moment.utc(text, "YYYYMMDDTHHmmss[Z]", true).local()
+    : moment(text, "YYYYMMDDTHHmmss", true);
+  return date.isValid() ? { date: date.toDate(), allDay: false } : null;
+}
 
-  private parseDailyNoteDate(file: TFile): Date | null {
-    const settings = this.plugin.settings;
-    const folder = settings.dailyNotesFolder;
+/** Extra days an event covers after its start day. All-day DTEND is exclusive. */
+function icsDurationDays(start: IcsDate, end: IcsDate): number {
+  const last = moment(end.date);
+  if (end.allDay || last.isSame(moment(last).startOf("day"))) {
+    last.subtract(1, "day");
+  }
+  return Math.max(0, last.startOf("day").diff(moment(start.date).startOf("day"), "days"));
+}
 
-    // Check if file is in daily notes folder (if specified)
-    if (folder && !file.path.startsWith(folder)) {
-      return null;
-    }
+/**
+ * Expands a recurrence into occurrence start dates. Supports FREQ, INTERVAL,
+ * COUNT, UNTIL and BYDAY for weekly rules. Without a range, open-ended rules
+ * stop a few years past today or at the occurrence limit; with one, every
+ * occurrence up to its end is kept, and only the periods near it are
+ * generated (unless COUNT needs every occurrence counted).
+ */
+function expandIcsEvent(event: IcsEvent, range?: { start: Date; end: Date }): Date[] {
+  const start = moment(event.start.date);
+  const rule = event.rrule;
+  if (!rule) {
+    return [start.toDate()];
+  }
 
-    const parsed = moment(file.basename, settings.dailyNoteFormat, true);
-    if (parsed.isValid()) {
-      return parsed.toDate();
-    }
-    return null;
+  const units: Record<string, moment.unitOfTime.DurationConstructor> = {
+    DAILY: "days",
+    WEEKLY: "weeks",
+    MONTHLY: "months",
+    YEARLY: "years",
+  };
+  const unit = units[rule.FREQ];
+  if (!unit) {
+    return [start.toDate()];
   }
 
-  private parseDate(value: unknown): Date | null {
-    if (typeof value === "string") {
-      const parsed = moment(value);
-      if (parsed.isValid()) {
-        return parsed.toDate();
+  const interval = Math.max(1, parseInt(rule.INTERVAL ?? "1", 10) || 1);
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : Infinity;
+  const parsedUntil = rule.UNTIL ? parseIcsDate(rule.UNTIL, []) : null;
+  const horizon = range ? moment(range.end).endOf("day") : moment().add(ICS_EXPANSION_YEARS, "years");
+  const until = parsedUntil ? moment.min(moment(parsedUntil.date).endOf("day"), horizon) : horizon;
+  // Start one period early so occurrences spanning into the range are kept
+  const firstStep = range && !rule.COUNT
+    ? Math.max(0, Math.floor(moment(range.start).diff(start, unit) / interval) - 1)
+    : 0;
+
+  // BYDAY only narrows weekly rules here, e.g. FREQ=WEEKLY;BYDAY=MO,WE
+  const byDay = rule.FREQ === "WEEKLY" && rule.BYDAY
+    ? rule.BYDAY.split(",").map((day) => ICS_WEEKDAYS.indexOf(day.slice(-2).toUpperCase())).filter((day) => day !== -1)
+    : [];
+
+  const occurrences: Date[] = [];
+  let emitted = 0;
+  for (let step = firstStep; range || occurrences.length < ICS_MAX_OCCURRENCES; step++) {
+    const period = start.clone().add(step * interval, unit);
+    if (period.isAfter(until)) {
+      break;
+    }
+    const weekStart = period.clone().startOf("week");
+    const candidates = byDay.length > 0
+      ? byDay
+          .map((day) =>
+            weekStart
+              .clone()
+              .add((day - weekStart.day() + 7) % 7, "days")
+              .hours(start.hours())
+              .minutes(start.minutes())
+          )
+          .sort((a, b) => a.valueOf() - b.valueOf())
+      : [period];
+
+    for (const candidate of candidates) {
+      if (candidate.isBefore(start) || candidate.isAfter(until) || emitted >= count) {
+        continue;
+      }
+      emitted++;
+      if (!event.exdates.has(dateKey(candidate.toDate()))) {
+        occurrences.push(candidate.toDate());
       }
     }
-    if (value instanceof Date) {
-      return value;
+    if (emitted >= count) {
+      break;
     }
-    return null;
   }
+  return occurrences;
+}
 
-  private dateKey(date: Date): string {
-    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+/**
+ * Reads a frontmatter repeat value as RRULE parts: "yearly", "every 2 weeks",
+ * or an RRULE such as "FREQ=MONTHLY;BYDAY=MO" (with or without "RRULE:").
+ */
+function parseRepeatRule(value: unknown): Record<string, string> | null {
+  if (typeof value !== "string") {
+    return null;
   }
+  const text = value.trim();
 
-  private render(): void {
-    const container = this.containerEl.children[1] as HTMLElement;
-    container.empty();
-    container.addClass("linear-calendar-container");
+  if (/FREQ=/i.test(text)) {
+    const rule: Record<string, string> = {};
+    for (const part of text.replace(/^RRULE:/i, "").split(";")) {
+      const [key, val] = part.split("=");
+      if (key && val) {
+        rule[key.trim().toUpperCase()] = val.trim().toUpperCase();
+      }
+    }
+    return rule.FREQ ? rule : null;
+  }
 
-    const year = this.plugin.settings.year;
-    const settings = this.plugin.settings;
+  const named: Record<string, string> = {
+    daily: "DAILY",
+    weekly: "WEEKLY",
+    monthly: "MONTHLY",
+    yearly: "YEARLY",
+    annually: "YEARLY",
+  };
+  if (named[text.toLowerCase()]) {
+    return { FREQ: named[text.toLowerCase()] };
+  }
 
-    // Calculate max columns needed (max offset + 31 days)
-    const maxColumns = this.calculateMaxColumns(year);
+  const units: Record<string, string> = { day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" };
+  const every = text.match(/^every\s+(?:(\d+)\s+)?(day|week|month|year)s?$/i);
+  if (every) {
+    return { FREQ: units[every[2].toLowerCase()], INTERVAL: every[1] ?? "1" };
+  }
+  return null;
+}
 
-    // Create header with year selector and scale controls
-    const header = container.createDiv({ cls: "linear-calendar-header" });
-    this.renderYearSelector(header, year);
-    this.renderScaleControls(header);
+/** Western Easter Sunday, by the anonymous Gregorian algorithm */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const h = (19 * a + b - Math.floor(b / 4) - Math.floor((b - Math.floor((b + 8) / 25) + 1) / 3) + 15) % 30;
+  const l = (32 + 2 * (b % 4) + 2 * Math.floor(c / 4) - h - (c % 4)) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
 
-    // Create scroll wrapper for independent X/Y scrolling
-    const scrollWrapper = container.createDiv({ cls: "linear-calendar-scroll-wrapper" });
+function holidayDate(rule: HolidayRule, year: number): Date {
+  if ("easterOffset" in rule) {
+    return moment(easterSunday(year)).add(rule.easterOffset, "days").toDate();
+  }
+  if ("day" in rule) {
+    return new Date(year, rule.month, rule.day);
+  }
+  if (rule.nth > 0) {
+    const first = new Date(year, rule.month, 1);
+    const offset = (rule.weekday - first.getDay() + 7) % 7;
+    return new Date(year, rule.month, 1 + offset + (rule.nth - 1) * 7);
+  }
+  const last = new Date(year, rule.month + 1, 0);
+  return new Date(year, rule.month, last.getDate() - ((last.getDay() - rule.weekday + 7) % 7));
+}
 
-    // Create calendar grid with scale applied
-    const grid = scrollWrapper.createDiv({ cls: "linear-calendar-grid" });
-    grid.style.setProperty("--scale-x", String(settings.scaleX));
-    grid.style.setProperty("--scale-y", String(settings.scaleY));
-    grid.style.setProperty("--font-scale", String(settings.fontScale));
+/**
+ * Reads shaded ranges from a CSV file or a note, one per line as
+ * "name, start, end, color" (end and color optional). Lines may also be list
+ * items or table rows; anything without a valid start date is skipped.
+ */
+function parseShadingLines(content: string): DateShading[] {
+  const shadings: DateShading[] = [];
+  for (const line of content.split("\n")) {
+    const text = line.replace(LIST_ITEM_PREFIX, "").trim();
+    const cells = (text.startsWith("|") ? text.split("|").slice(1, -1) : text.split(","))
+      .map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+    const [name, startText, endText, color] = cells;
+    const start = moment(startText ?? "", "YYYY-MM-DD", true);
+    if (!name || !start.isValid()) {
+      continue;
+    }
+    const end = endText ? moment(endText, "YYYY-MM-DD", true) : start;
+    if (!end.isValid() || end.isBefore(start)) {
+      continue;
+    }
+    shadings.push({ name, start: start.toDate(), end: end.toDate(), color: color || undefined, holiday: false });
+  }
+  return shadings;
+}
 
-    // Render weekday header row
-    this.renderWeekdayHeader(grid, maxColumns, settings.weekdayLabels);
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/([,;])/g, "\\$1").replace(/\n/g, "\\n");
+}
 
-    // Render each month
-    for (let month = 0; month < 12; month++) {
-      this.renderMonth(grid, year, month, maxColumns);
+/** Folds a content line to the 75-octet limit of RFC 5545, counted in UTF-8 and never splitting a character */
+function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const char of line) {
+    const code = char.codePointAt(0) ?? 0;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    // Continuation lines start with a space, leaving 74 octets of content
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
     }
-
-    // Add wheel scale handler
-    this.registerDomEvent(scrollWrapper, "wheel", (e: WheelEvent) => {
-      if (e.ctrlKey || e.metaKey) {
-        e.preventDefault();
-        const delta = e.deltaY > 0 ? -0.1 : 0.1;
-        if (e.shiftKey) {
-          this.adjustScale("y", delta);
-        } else {
-          this.adjustScale("x", delta);
-        }
-      }
-    });
+    chunk += char;
+    octets += size;
   }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
 
-  private renderScaleControls(container: HTMLElement): void {
-    const scaleContainer = container.createDiv({ cls: "linear-calendar-scale-controls" });
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
 
-    // X scale controls
-    const xGroup = scaleContainer.createDiv({ cls: "linear-calendar-scale-group" });
-    xGroup.createEl("span", { cls: "linear-calendar-scale-label", text: "Width" });
+function isVisibleColor(color: string): boolean {
+  return color !== "transparent" && !/^rgba\(.*,\s*0\)$/.test(color);
+}
 
-    const xOutBtn = xGroup.createEl("button", {
-      cls: "linear-calendar-scale-btn",
-      attr: { "aria-label": "Decrease width" },
-    });
-    xOutBtn.setText("-");
-    xOutBtn.addEventListener("click", () => this.adjustScale("x", -0.2));
+/**
+ * Expands the placeholders the core templates use: {{title}}, {{date}} and
+ * {{time}}, optionally with a moment format such as {{date:dddd}}.
+ */
+function expandTemplate(content: string, date: Date, title: string, dateFormat: string): string {
+  const now = moment();
+  return content.replace(/{{\s*(title|date|time)\s*(?::([^}]*))?}}/gi, (_, name: string, format?: string) => {
+    switch (name.toLowerCase()) {
+      case "title":
+        return title;
+      case "date":
+        return moment(date).format(format?.trim() || dateFormat);
+      default:
+        return now.format(format?.trim() || "HH:mm");
+    }
+  });
+}
 
-    xGroup.createEl("span", {
-      cls: "linear-calendar-scale-value",
-      text: `${Math.round(this.plugin.settings.scaleX * 100)}%`,
-    });
+const EMBED_OPTION_KEYS = [
+  "year",
+  "range",
+  "start",
+  "end",
+  "months",
+  "fiscal-start",
+  "folder",
+  "folders",
+  "tag",
+  "tags",
+  "fields",
+  "scale",
+  "width",
+  "height",
+  "font",
+  "heatmap",
+  "heatmap-property",
+];
 
-    const xInBtn = xGroup.createEl("button", {
-      cls: "linear-calendar-scale-btn",
-      attr: { "aria-label": "Increase width" },
-    });
-    xInBtn.setText("+");
-    xInBtn.addEventListener("click", () => this.adjustScale("x", 0.2));
+/**
+ * Reads the options of a `linear-calendar` code block, written as YAML
+ * ("year: 2026", "folder: Projects/Apollo", "heatmap: words"). Throws with a
+ * message for the reader when an option can't be used.
+ */
+function parseEmbedOptions(source: string): CalendarOptions {
+  const raw: unknown = source.trim() ? parseYaml(source) : {};
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Write the options as key: value lines");
+  }
+  const data = raw as Record<string, unknown>;
+  const unknown = Object.keys(data).find((key) => !EMBED_OPTION_KEYS.includes(key));
+  if (unknown) {
+    throw new Error(`Unknown option "${unknown}"`);
+  }
 
-    // Y scale controls
-    const yGroup = scaleContainer.createDiv({ cls: "linear-calendar-scale-group" });
-    yGroup.createEl("span", { cls: "linear-calendar-scale-label", text: "Height" });
+  const list = (...keys: string[]): string[] =>
+    keys
+      .flatMap((key) => {
+        const value = data[key];
+        return Array.isArray(value) ? value : value === undefined || value === null ? [] : String(value).split(",");
+      })
+      .map((value) => String(value).trim().replace(/^#/, ""))
+      .filter((value) => value !== "");
+  const positive = (key: string): number | undefined => {
+    if (data[key] === undefined) {
+      return undefined;
+    }
+    const value = Number(data[key]);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`"${key}" must be a positive number`);
+    }
+    return value;
+  };
+  const month = (key: string): string => {
+    const value = data[key];
+    const parsed = value instanceof Date ? moment(value) : moment(String(value), ["YYYY-MM", "YYYY-MM-DD"], true);
+    if (!parsed.isValid()) {
+      throw new Error(`"${key}" must be a month such as 2026-01`);
+    }
+    return parsed.format("YYYY-MM");
+  };
 
-    const yOutBtn = yGroup.createEl("button", {
-      cls: "linear-calendar-scale-btn",
-      attr: { "aria-label": "Decrease height" },
+  const overrides: CalendarOverrides = {};
+  const state: Partial<CalendarViewState> = {};
+  if (data.year !== undefined) {
+    const year = Number(data.year);
+    if (!Number.isInteger(year)) {
+      throw new Error(`"year" must be a year such as 2026`);
+    }
+    state.year = year;
+    overrides.rangeMode = "calendar";
+  }
+  if (data.start !== undefined || data.end !== undefined) {
+    overrides.customStart = month(data.start !== undefined ? "start" : "end");
+    overrides.customEnd = month(data.end !== undefined ? "end" : "start");
+    overrides.rangeMode = "custom";
+  }
+  if (data.range !== undefined) {
+    const mode = String(data.range).toLowerCase();
+    if (!["calendar", "fiscal", "rolling", "custom"].includes(mode)) {
+      throw new Error(`"range" must be calendar, fiscal, rolling or custom`);
+    }
+    overrides.rangeMode = mode as RangeMode;
+  }
+  const months = positive("months");
+  if (months !== undefined) {
+    overrides.rollingMonths = Math.min(Math.round(months), MAX_DISPLAY_MONTHS);
+  }
+  const fiscalStart = positive("fiscal-start");
+  if (fiscalStart !== undefined) {
+    if (!Number.isInteger(fiscalStart) || fiscalStart > 12) {
+      throw new Error(`"fiscal-start" must be a month number from 1 to 12`);
+    }
+    overrides.fiscalStartMonth = fiscalStart - 1;
+  }
+
+  const scale = positive("scale");
+  state.scaleX = positive("width") ?? scale;
+  state.scaleY = positive("height") ?? scale;
+  state.fontScale = positive("font");
+
+  if (data.heatmap !== undefined) {
+    const heatmap = String(data.heatmap).toLowerCase();
+    if (heatmap in HEATMAP_METRIC_LABELS) {
+      overrides.heatmap = true;
+      overrides.heatmapMetric = heatmap as HeatmapMetric;
+    } else if (heatmap === "true" || heatmap === "false") {
+      overrides.heatmap = heatmap === "true";
+    } else {
+      throw new Error(`"heatmap" must be true, false, or one of ${Object.keys(HEATMAP_METRIC_LABELS).join(", ")}`);
+    }
+  }
+  if (data["heatmap-property"] !== undefined) {
+    overrides.heatmapProperty = String(data["heatmap-property"]);
+  }
+
+  // Leave unset sizes to the default sizes
+  for (const key of Object.keys(state) as (keyof CalendarViewState)[]) {
+    if (state[key] === undefined) {
+      delete state[key];
+    }
+  }
+
+  return {
+    embedded: true,
+    overrides,
+    state,
+    scope: {
+      folders: list("folder", "folders"),
+      tags: list("tag", "tags"),
+      fields: list("fields"),
+    },
+  };
+}
+
+function dateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+export default class LinearCalendarPlugin extends Plugin {
+  settings: LinearCalendarSettings = structuredClone(DEFAULT_SETTINGS);
+  private legacyViewState: Partial<CalendarViewState> | null = null;
+  eventIndex: EventIndex = new EventIndex(this);
+  rescheduler: EventRescheduler = new EventRescheduler(this);
+
+  async onload(): Promise<void> {
+    await this.loadSettings();
+
+    // Keep the index in sync with the vault, one file at a time
+    this.registerEvent(
+      this.app.vault.on("create", (file) => {
+        if (file instanceof TFile) {
+          void this.eventIndex.updateFile(file);
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => this.eventIndex.removeFile(file.path))
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (file instanceof TFile) {
+          void this.eventIndex.renameFile(file, oldPath);
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => void this.eventIndex.updateFile(file))
+    );
+    // Calendar and CSV files have no metadata cache entry, so watch their content directly
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (file instanceof TFile && (file.extension === "ics" || file.extension === "csv")) {
+          void this.eventIndex.updateFile(file);
+        }
+      })
+    );
+
+    this.registerView(
+      VIEW_TYPE_LINEAR_CALENDAR,
+      (leaf) => new LinearCalendarView(leaf, this)
+    );
+
+    this.registerMarkdownCodeBlockProcessor("linear-calendar", (source, el, ctx) => {
+      let options: CalendarOptions;
+      try {
+        options = parseEmbedOptions(source);
+      } catch (error) {
+        el.createDiv({
+          cls: "linear-calendar-embed-error",
+          text: `Linear calendar: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        return;
+      }
+      const calendarEl = el.createDiv({ cls: "linear-calendar-embed" });
+      const child = new MarkdownRenderChild(calendarEl);
+      child.addChild(new LinearCalendar(this, calendarEl, options));
+      ctx.addChild(child);
     });
-    yOutBtn.setText("-");
-    yOutBtn.addEventListener("click", () => this.adjustScale("y", -0.2));
 
-    yGroup.createEl("span", {
-      cls: "linear-calendar-scale-value",
-      text: `${Math.round(this.plugin.settings.scaleY * 100)}%`,
+    this.addCommand({
+      id: "open-view",
+      name: "Open calendar view",
+      callback: () => void this.activateView(),
     });
 
-    const yInBtn = yGroup.createEl("button", {
-      cls: "linear-calendar-scale-btn",
-      attr: { "aria-label": "Increase height" },
+    this.addCommand({
+      id: "open-view-new-tab",
+      name: "Open calendar in new tab",
+      callback: () => void this.activateView({ newTab: true }),
     });
-    yInBtn.setText("+");
-    yInBtn.addEventListener("click", () => this.adjustScale("y", 0.2));
 
-    // Font scale controls
-    const fontGroup = scaleContainer.createDiv({ cls: "linear-calendar-scale-group" });
-    fontGroup.createEl("span", { cls: "linear-calendar-scale-label", text: "Font" });
+    this.addViewCommand("export-ics", "Export displayed events as iCalendar", (calendar) =>
+      calendar.exportIcs()
+    );
+    this.addViewCommand("export-svg", "Export calendar as SVG image", (calendar) =>
+      calendar.exportImage("svg")
+    );
+    this.addViewCommand("export-png", "Export calendar as PNG image", (calendar) =>
+      calendar.exportImage("png")
+    );
+    this.addViewCommand("export-printable", "Export calendar as printable HTML page", (calendar) =>
+      calendar.exportPrintable()
+    );
 
-    const fontOutBtn = fontGroup.createEl("button", {
-      cls: "linear-calendar-scale-btn",
-      attr: { "aria-label": "Decrease font size" },
+    this.addCommand({
+      id: "show-date-issues",
+      name: "Show date parsing issues",
+      callback: () => void this.showDateIssues(),
     });
-    fontOutBtn.setText("-");
-    fontOutBtn.addEventListener("click", () => this.adjustScale("font", -0.1));
 
-    fontGroup.createEl("span", {
-      cls: "linear-calendar-scale-value",
-      text: `${Math.round(this.plugin.settings.fontScale * 100)}%`,
+    this.addCommand({
+      id: "undo-reschedule",
+      name: "Undo last reschedule",
+      callback: () => void this.rescheduler.undo(),
     });
 
-    const fontInBtn = fontGroup.createEl("button", {
-      cls: "linear-calendar-scale-btn",
-      attr: { "aria-label": "Increase font size" },
-    });
-    fontInBtn.setText("+");
-    fontInBtn.addEventListener("click", () => this.adjustScale("font", 0.1));
+    this.addSettingTab(new LinearCalendarSettingTab(this.app, this));
 
-    // Reset button
-    const resetBtn = scaleContainer.createEl("button", {
-      cls: "linear-calendar-scale-btn linear-calendar-scale-reset",
-      attr: { "aria-label": "Reset to defaults" },
-    });
-    resetBtn.setText("Reset");
-    resetBtn.addEventListener("click", () => {
-      this.plugin.settings.scaleX = this.plugin.settings.defaultScaleX;
-      this.plugin.settings.scaleY = this.plugin.settings.defaultScaleY;
-      this.plugin.settings.fontScale = this.plugin.settings.defaultFontScale;
-      void this.plugin.saveSettings();
-      this.render();
+    this.addRibbonIcon("calendar-days", "Open calendar view", () => {
+      void this.activateView();
     });
   }
 
-  private adjustScale(axis: "x" | "y" | "font", delta: number): void {
-    const key = axis === "x" ? "scaleX" : axis === "y" ? "scaleY" : "fontScale";
-    const min = axis === "font" ? 0.5 : 0.5;
-    const max = axis === "font" ? 3 : 5;
-    const newScale = Math.max(min, Math.min(max, this.plugin.settings[key] + delta));
-    this.plugin.settings[key] = Math.round(newScale * 10) / 10;
-    void this.plugin.saveSettings();
-    this.render();
+  async showDateIssues(): Promise<void> {
+    await this.eventIndex.ensureBuilt();
+    new DateIssuesModal(this, this.eventIndex.getDateIssues()).open();
   }
 
-  private calculateMaxColumns(year: number): number {
-    let maxEndColumn = 0;
-    for (let month = 0; month < 12; month++) {
-      const firstDay = new Date(year, month, 1);
-      const daysInMonth = new Date(year, month + 1, 0).getDate();
-      // getDay() returns 0 for Sunday, we want Monday = 0
-      const offset = (firstDay.getDay() + 6) % 7;
-      const endColumn = offset + daysInMonth;
-      if (endColumn > maxEndColumn) {
-        maxEndColumn = endColumn;
-      }
-    }
-    return maxEndColumn;
-  }
+  /**
+   * Reveals a calendar view, reusing the first open one unless `newTab` is set.
+   * When `year` is given the calendar shows that year.
+   */
+  async activateView(options: { year?: number; newTab?: boolean } = {}): Promise<void> {
+    const { workspace } = this.app;
+    const state = options.year === undefined ? {} : { year: options.year, rangeShift: 0 };
 
-  private renderYearSelector(container: HTMLElement, currentYear: number): void {
-    const selector = container.createDiv({ cls: "linear-calendar-year-selector" });
+    let leaf: WorkspaceLeaf | null = null;
+    const leaves = workspace.getLeavesOfType(VIEW_TYPE_LINEAR_CALENDAR);
 
-    const prevBtn = selector.createEl("button", {
-      cls: "linear-calendar-year-btn",
-      attr: {
-        "aria-label": "Previous year",
-      },
-    });
-    prevBtn.setText("<");
-    prevBtn.addEventListener("click", () => {
-      this.plugin.settings.year = currentYear - 1;
-      void this.plugin.saveSettings();
-      this.render();
-    });
+    if (leaves.length > 0 && !options.newTab) {
+      leaf = leaves[0];
+      if (leaf.view instanceof LinearCalendarView && options.year !== undefined) {
+        leaf.view.calendar?.setViewState(state);
+        workspace.requestSaveLayout();
+      }
+    } else {
+      leaf = workspace.getLeaf("tab");
+      if (leaf) {
+        await leaf.setViewState({
+          type: VIEW_TYPE_LINEAR_CALENDAR,
+          active: true,
+          state,
+        });
+      }
+    }
 
-    selector.createEl("span", {
-      cls: "linear-calendar-year-label",
-      text: String(currentYear),
-    });
+    if (leaf) {
+      void workspace.revealLeaf(leaf);
+    }
+  }
 
-    const nextBtn = selector.createEl("button", {
-      cls: "linear-calendar-year-btn",
-      attr: {
-        "aria-label": "Next year",
+  /** Adds a command that runs against the focused calendar view */
+  private addViewCommand(
+    id: string,
+    name: string,
+    action: (calendar: LinearCalendar) => Promise<void>
+  ): void {
+    this.addCommand({
+      id,
+      name,
+      checkCallback: (checking) => {
+        const calendar = this.app.workspace.getActiveViewOfType(LinearCalendarView)?.calendar;
+        if (!calendar) {
+          return false;
+        }
+        if (!checking) {
+          void action(calendar);
+        }
+        return true;
       },
     });
-    nextBtn.setText(">");
-    nextBtn.addEventListener("click", () => {
-      this.plugin.settings.year = currentYear + 1;
-      void this.plugin.saveSettings();
-      this.render();
-    });
+  }
 
-    // Today button
-    const todayBtn = selector.createEl("button", {
-      cls: "linear-calendar-today-btn",
-      attr: {
-        "aria-label": "Go to current year",
-      },
-    });
-    todayBtn.setText("Today");
-    todayBtn.addEventListener("click", () => {
-      this.plugin.settings.year = new Date().getFullYear();
-      void this.plugin.saveSettings();
-      this.render();
-    });
+  /** Formats tried for a date field: its own list when it has one, otherwise the global list */
+  getDateFormats(field: string): string[] {
+    const own = this.settings.fieldDateFormats.find(
+      (entry) => entry.field.toLowerCase() === field.toLowerCase()
+    );
+    return own && own.formats.length > 0 ? own.formats : this.settings.dateFormats;
   }
 
-  private renderWeekdayHeader(
-    grid: HTMLElement,
-    maxColumns: number,
-    labels: string[]
-  ): void {
-    const row = grid.createDiv({ cls: "linear-calendar-row linear-calendar-header-row" });
+  /**
+   * Folder, filename format and template for daily notes, taken from the core
+   * Daily Notes plugin when the settings ask for it and that plugin is enabled.
+   */
+  getDailyNoteConfig(): PeriodicNoteConfig {
+    const settings = this.settings;
+    const config: PeriodicNoteConfig = {
+      folder: settings.dailyNotesFolder,
+      format: settings.dailyNoteFormat,
+      template: settings.dailyNoteTemplate,
+    };
+    if (!settings.useCoreDailyNotes) {
+      return config;
+    }
 
-    // Empty cell for month label column
-    row.createDiv({ cls: "linear-calendar-month-label" });
+    const internalPlugins = (this.app as App & { internalPlugins?: InternalPlugins }).internalPlugins;
+    const core = internalPlugins?.getPluginById("daily-notes");
+    const options = core?.enabled ? core.instance?.options : undefined;
+    if (options) {
+      config.folder = options.folder?.trim() ?? "";
+      config.format = options.format?.trim() || "YYYY-MM-DD";
+      config.template = options.template?.trim() ?? "";
+    }
+    return config;
+  }
 
-    // Weekday labels repeating
-    for (let col = 0; col < maxColumns; col++) {
-      const dayIndex = col % 7;
-      const isWeekend = dayIndex === 5 || dayIndex === 6;
-      const cell = row.createDiv({
-        cls: `linear-calendar-header-cell ${isWeekend ? "linear-calendar-weekend" : ""}`,
-      });
-      cell.setText(labels[dayIndex]);
+  getPeriodicNoteConfig(period: NotePeriod): PeriodicNoteConfig {
+    const settings = this.settings;
+    switch (period) {
+      case "day":
+        return this.getDailyNoteConfig();
+      case "week":
+        return {
+          folder: settings.weeklyNotesFolder,
+          format: settings.weeklyNoteFormat,
+          template: settings.weeklyNoteTemplate,
+        };
+      case "month":
+        return {
+          folder: settings.monthlyNotesFolder,
+          format: settings.monthlyNoteFormat,
+          template: settings.monthlyNoteTemplate,
+        };
     }
   }
 
-  private renderMonth(
-    grid: HTMLElement,
-    year: number,
-    month: number,
-    maxColumns: number
-  ): void {
-    const settings = this.plugin.settings;
-    const firstDay = new Date(year, month, 1);
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-    const offset = (firstDay.getDay() + 6) % 7; // Monday = 0
+  /** Vault path of the periodic note covering a date, whether or not it exists */
+  getPeriodicNotePath(period: NotePeriod, date: Date): string {
+    const { folder, format } = this.getPeriodicNoteConfig(period);
+    const filename = moment(date).format(format);
+    return normalizePath(folder ? `${folder}/${filename}.md` : `${filename}.md`);
+  }
 
-    const row = grid.createDiv({ cls: "linear-calendar-row" });
+  /**
+   * Adds an external event source. Returns a function that removes it again;
+   * plugins should pass it to their own `register()` so it runs on unload.
+   */
+  registerEventProvider(provider: CalendarEventProvider): () => void {
+    this.eventIndex.addProvider(provider);
+    return () => this.unregisterEventProvider(provider.id);
+  }
 
-    // Month label
-    const monthLabel = row.createDiv({ cls: "linear-calendar-month-label" });
-    monthLabel.setText(settings.monthLabels[month]);
+  unregisterEventProvider(id: string): void {
+    this.eventIndex.removeProvider(id);
+  }
 
-    // Create all cells
-    const today = new Date();
-    const isCurrentYear = year === today.getFullYear();
-    const isCurrentMonth = isCurrentYear && month === today.getMonth();
-    const todayDate = today.getDate();
+  /** Asks one provider, or all of them, to supply their events again */
+  refreshEvents(providerId?: string): void {
+    void this.eventIndex.loadProviders(providerId);
+  }
 
-    // Days container for positioning
-    const daysContainer = row.createDiv({ cls: "linear-calendar-days-container" });
+  async loadSettings(): Promise<void> {
+    const data = ((await this.loadData()) ?? {}) as Record<string, unknown>;
 
-    // Empty cells before month starts
-    for (let col = 0; col < offset; col++) {
-      const dayIndex = col % 7;
-      const isWeekend = dayIndex === 5 || dayIndex === 6;
-      daysContainer.createDiv({
-        cls: `linear-calendar-cell linear-calendar-empty ${isWeekend ? "linear-calendar-weekend" : ""}`,
-      });
+    // The year and sizes used to be global settings; the first calendar tab takes them over
+    const legacyKeys = (["year", "scaleX", "scaleY", "fontScale"] as const).filter((key) => key in data);
+    for (const key of legacyKeys) {
+      const value = data[key];
+      if (typeof value === "number") {
+        this.legacyViewState = { ...this.legacyViewState, [key]: value };
+      }
+      delete data[key];
     }
 
-    // Day cells
-    for (let day = 1; day <= daysInMonth; day++) {
-      const col = offset + day - 1;
-      const dayIndex = col % 7;
-      const isWeekend = dayIndex === 5 || dayIndex === 6;
-      const isToday = isCurrentMonth && day === todayDate;
+    // The settings tab edits lists and their entries in place, so they must not be the defaults' own
+    this.settings = Object.assign(structuredClone(DEFAULT_SETTINGS), data);
+    if (legacyKeys.length > 0) {
+      await this.saveSettings();
+    }
+  }
 
-      const date = new Date(year, month, day);
-      const dateKey = this.dateKey(date);
-      const dayEvents = this.events.get(dateKey) || [];
+  /** The year and sizes from before each tab kept its own, handed out once */
+  takeLegacyViewState(): Partial<CalendarViewState> {
+    const state = this.legacyViewState ?? {};
+    this.legacyViewState = null;
+    return state;
+  }
 
-      const cell = daysContainer.createDiv({
-        cls: `linear-calendar-cell ${isWeekend ? "linear-calendar-weekend" : ""} ${isToday ? "linear-calendar-today" : ""} ${dayEvents.length > 0 ? "linear-calendar-has-events" : ""}`,
-        attr: {
-          "data-date": dateKey,
-          "aria-label": `${settings.monthLabels[month]} ${day}, ${year}`,
-          tabindex: "0",
-          role: "button",
-        },
-      });
+  async saveSettings(): Promise<void> {
+    await this.saveData(this.settings);
+  }
+}
 
-      // Day number
-      const dayNumber = cell.createDiv({ cls: "linear-calendar-day-number" });
-      dayNumber.setText(String(day));
-
-      // Events
-      if (dayEvents.length > 0) {
-        const eventsContainer = cell.createDiv({ cls: "linear-calendar-events" });
-        for (const event of dayEvents.slice(0, 3)) {
-          const eventEl = eventsContainer.createDiv({
-            cls: "linear-calendar-event",
-            attr: {
-              "aria-label": `Open ${event.title}`,
-              tabindex: "0",
-              role: "button",
-            },
-          });
-          eventEl.setText(event.title.substring(0, 10));
-          eventEl.addEventListener("click", (ev) => {
-            ev.stopPropagation();
-            void this.openFile(event.file);
-          });
-          eventEl.addEventListener("keydown", (ev) => {
-            if (ev.key === "Enter" || ev.key === " ") {
-              ev.preventDefault();
-              ev.stopPropagation();
-              void this.openFile(event.file);
-            }
-          });
-        }
-        if (dayEvents.length > 3) {
-          const moreEl = eventsContainer.createDiv({ cls: "linear-calendar-more" });
-          moreEl.setText(`+${dayEvents.length - 3}`);
-        }
-      }
+/**
+ * Per-file event index shared by all calendar views. Files are re-extracted
+ * individually as the vault changes, and listeners are told which day keys
+ * were affected so they can patch only those cells.
+ */
+class EventIndex extends Events {
+  private plugin: LinearCalendarPlugin;
+  private app: App;
+  private byFile: Map<string, CalendarEvent[]> = new Map();
+  private byDay: Map<string, CalendarEvent[]> = new Map();
+  private ranges: Set<CalendarEvent> = new Set();
+  private versions: Map<string, number> = new Map();
+  private buildPromise: Promise<void> | null = null;
+  /** Bumped by each rebuild, so one that finishes after a newer one started is dropped */
+  private generation = 0;
+  /** Paths that changed while a rebuild was reading, re-extracted once it's applied */
+  private changedDuringBuild: Set<string> | null = null;
+  private activityCounts: Map<string, number> | null = null;
+  /** The days each note is counted on, so an edit moves only that note's counts */
+  private activityDays: Map<string, string[]> = new Map();
+  private built = false;
+  private providers: Map<string, CalendarEventProvider> = new Map();
+  /** Days that views have asked for; providers and repeating events fill only these */
+  private displayWindow: { start: Date; end: Date } | null = null;
+  private recurringPaths: Set<string> = new Set();
+  /** Set once any calendar shows word counts; daily notes are read for them from then on */
+  private wordsRequested = false;
+  private fileShadings: DateShading[] = [];
+  private dateIssues: Map<string, DateIssue[]> = new Map();
 
-      // Click handler for day
-      cell.addEventListener("click", () => {
-        void this.openOrCreateDailyNote(date);
-      });
-      cell.addEventListener("keydown", (ev) => {
-        if (ev.key === "Enter" || ev.key === " ") {
-          ev.preventDefault();
-          void this.openOrCreateDailyNote(date);
-        }
-      });
-    }
+  constructor(plugin: LinearCalendarPlugin) {
+    super();
+    this.plugin = plugin;
+    this.app = plugin.app;
+  }
 
-    // Empty cells after month ends
-    const totalCells = offset + daysInMonth;
-    for (let col = totalCells; col < maxColumns; col++) {
-      const dayIndex = col % 7;
-      const isWeekend = dayIndex === 5 || dayIndex === 6;
-      daysContainer.createDiv({
-        cls: `linear-calendar-cell linear-calendar-empty ${isWeekend ? "linear-calendar-weekend" : ""}`,
-      });
-    }
+  on(name: "changed", callback: (days: Set<string> | null) => void): EventRef {
+    return super.on(name, callback);
   }
 
-  private async openFile(file: TFile): Promise<void> {
-    const leaf = this.app.workspace.getLeaf(false);
-    await leaf.openFile(file);
+  ensureBuilt(): Promise<void> {
+    return this.buildPromise ?? this.rebuild();
   }
 
-  private async openOrCreateDailyNote(date: Date): Promise<void> {
-    const settings = this.plugin.settings;
-    const filename = moment(date).format(settings.dailyNoteFormat);
-    const folder = settings.dailyNotesFolder;
-    const path = folder ? `${folder}/${filename}.md` : `${filename}.md`;
+  rebuild(): Promise<void> {
+    this.buildPromise = this.build(++this.generation);
+    return this.buildPromise;
+  }
 
-    let file = this.app.vault.getAbstractFileByPath(path);
+  private async build(generation: number): Promise<void> {
+    this.changedDuringBuild ??= new Set();
+    const extracted: [TFile, CalendarEvent[]][] = [];
+    const files = this.app.vault
+      .getFiles()
+      .filter((file) => file.extension === "md" || this.isIcsFile(file));
+    this.dateIssues.clear();
+    for (const file of files) {
+      extracted.push([file, await this.extractEventsFromFile(file)]);
+    }
+    const fileShadings = await this.readShadingFile();
+    const providerEvents: [string, CalendarEvent[] | null][] = [];
+    for (const provider of this.providers.values()) {
+      providerEvents.push([provider.id, await this.fetchProviderEvents(provider)]);
+    }
 
-    if (file instanceof TFile) {
+    // A newer rebuild read the vault after this one did and applies its own results
+    if (generation !== this.generation) {
+      await this.buildPromise;
+      return;
+    }
+
+    this.fileShadings = fileShadings;
+    this.byFile.clear();
+    this.byDay.clear();
+    this.ranges.clear();
+    for (const [file, events] of extracted) {
+      this.addEvents(file.path, events, new Set());
+    }
+    for (const [id, events] of providerEvents) {
+      if (events && this.providers.has(id)) {
+        this.addEvents(this.providerKey(id), events, new Set());
+      }
+    }
+    // Updates that were still reading when the rebuild started hold older content
+    for (const [path, version] of this.versions) {
+      this.versions.set(path, version + 1);
+    }
+    this.built = true;
+    this.buildPromise = Promise.resolve();
+    this.activityCounts = null;
+
+    // null tells listeners that everything may have changed
+    this.trigger("changed", null);
+
+    const changed = this.changedDuringBuild;
+    this.changedDuringBuild = null;
+    for (const path of changed) {
+      const file = this.app.vault.getFileByPath(path);
+      if (file) {
+        void this.updateFile(file);
+      } else {
+        this.removeFile(path);
+      }
+    }
+  }
+
+  async updateFile(file: TFile): Promise<void> {
+    // The rebuild may already have read this file, so it's extracted again afterwards
+    if (this.changedDuringBuild) {
+      this.changedDuringBuild.add(file.path);
+      return;
+    }
+    if (this.built && this.isShadingFile(file.path)) {
+      this.fileShadings = await this.readShadingFile();
+      this.trigger("changed", null);
+    }
+    if (!this.built || (file.extension !== "md" && !this.isIcsFile(file))) {
+      return;
+    }
+    const events = await this.extractLatest(file);
+    if (!events) {
+      return;
+    }
+    const days = new Set<string>();
+    this.removePath(file.path, days);
+    this.addEvents(file.path, events, days);
+    // Editing a note changes today's activity even when its dates stay the same
+    this.updateActivity(file.path, file, days);
+    this.notify(days);
+  }
+
+  async renameFile(file: TFile, oldPath: string): Promise<void> {
+    if (this.changedDuringBuild) {
+      this.changedDuringBuild.add(oldPath).add(file.path);
+      return;
+    }
+    if (!this.built) {
+      return;
+    }
+    const days = new Set<string>();
+    this.recurringPaths.delete(oldPath);
+    this.dateIssues.delete(oldPath);
+    this.removePath(oldPath, days);
+    this.updateActivity(oldPath, null, days);
+    this.notify(days);
+    await this.updateFile(file);
+  }
+
+  removeFile(path: string): void {
+    if (this.changedDuringBuild) {
+      this.changedDuringBuild.add(path);
+      return;
+    }
+    if (!this.built) {
+      return;
+    }
+    this.versions.delete(path);
+    this.recurringPaths.delete(path);
+    this.dateIssues.delete(path);
+    if (this.isShadingFile(path)) {
+      this.fileShadings = [];
+      this.trigger("changed", null);
+    }
+    const days = new Set<string>();
+    this.removePath(path, days);
+    this.updateActivity(path, null, days);
+    this.notify(days);
+  }
+
+  /**
+   * Holidays from the enabled rule sets, ranges from the settings and ranges
+   * from the shading file that overlap the given days.
+   */
+  getShadings(start: Date, end: Date): DateShading[] {
+    const settings = this.plugin.settings;
+    const shadings: DateShading[] = [];
+
+    for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+      for (const set of settings.holidaySets) {
+        for (const rule of HOLIDAY_SETS[set]?.rules ?? []) {
+          const date = holidayDate(rule, year);
+          shadings.push({ name: rule.name, start: date, end: date, holiday: true });
+        }
+      }
+    }
+
+    for (const range of settings.shadedRanges) {
+      const from = moment(range.start, "YYYY-MM-DD", true);
+      const to = range.end ? moment(range.end, "YYYY-MM-DD", true) : from;
+      if (from.isValid() && to.isValid() && !to.isBefore(from)) {
+        shadings.push({
+          name: range.name || "Untitled range",
+          start: from.toDate(),
+          end: to.toDate(),
+          color: range.color || undefined,
+          holiday: false,
+        });
+      }
+    }
+
+    shadings.push(...this.fileShadings);
+    return shadings.filter((shading) => shading.start <= end && shading.end >= start);
+  }
+
+  /** Notes with configured date fields that couldn't be parsed, by path */
+  getDateIssues(): Map<string, DateIssue[]> {
+    return new Map(Array.from(this.dateIssues).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  getProviders(): CalendarEventProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getProvider(id: string): CalendarEventProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  addProvider(provider: CalendarEventProvider): void {
+    this.providers.set(provider.id, provider);
+    void this.loadProviders(provider.id);
+  }
+
+  removeProvider(id: string): void {
+    this.providers.delete(id);
+    if (!this.built) {
+      return;
+    }
+    const days = new Set<string>();
+    this.removePath(this.providerKey(id), days);
+    this.notify(days);
+  }
+
+  /** Widens the provider window to cover the given days, loading what's new */
+  requestRange(start: Date, end: Date): void {
+    const displayed = this.displayWindow;
+    if (displayed && displayed.start <= start && displayed.end >= end) {
+      return;
+    }
+    this.displayWindow = {
+      start: displayed && displayed.start < start ? displayed.start : start,
+      end: displayed && displayed.end > end ? displayed.end : end,
+    };
+    void this.loadProviders();
+    if (this.built) {
+      for (const path of this.recurringPaths) {
+        const file = this.app.vault.getFileByPath(path);
+        if (file) {
+          void this.updateFile(file);
+        }
+      }
+    }
+  }
+
+  /** Counts the words of daily notes from now on, re-reading those already indexed */
+  requestWordCounts(): void {
+    if (this.wordsRequested) {
+      return;
+    }
+    this.wordsRequested = true;
+    if (!this.built) {
+      return;
+    }
+    for (const [path, events] of this.byFile) {
+      const file = this.app.vault.getFileByPath(path);
+      if (file && events.some((event) => event.source === "daily-note" && event.wordCount === undefined)) {
+        void this.updateFile(file);
+      }
+    }
+  }
+
+  async loadProviders(providerId?: string): Promise<void> {
+    if (!this.built) {
+      return;
+    }
+    const providers = providerId ? [this.providers.get(providerId)] : Array.from(this.providers.values());
+    await Promise.all(
+      providers.map(async (provider) => {
+        if (!provider) {
+          return;
+        }
+        // Like files, only the latest load of a provider is applied
+        const key = this.providerKey(provider.id);
+        const version = (this.versions.get(key) ?? 0) + 1;
+        this.versions.set(key, version);
+        const events = await this.fetchProviderEvents(provider);
+        if (!events || this.versions.get(key) !== version) {
+          return;
+        }
+        const days = new Set<string>();
+        this.removePath(key, days);
+        this.addEvents(key, events, days);
+        this.notify(days);
+      })
+    );
+  }
+
+  getEventsForDay(key: string): CalendarEvent[] {
+    return this.byDay.get(key) ?? [];
+  }
+
+  getRangeEvents(): CalendarEvent[] {
+    return Array.from(this.ranges);
+  }
+
+  /** Number of notes created or modified on each day, counting a note once per day */
+  getActivityCounts(): Map<string, number> {
+    if (this.activityCounts) {
+      return this.activityCounts;
+    }
+    const counts = new Map<string, number>();
+    this.activityDays.clear();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const days = this.activityDaysOf(file);
+      this.activityDays.set(file.path, days);
+      days.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+    }
+    this.activityCounts = counts;
+    return counts;
+  }
+
+  private activityDaysOf(file: TFile): string[] {
+    return Array.from(new Set([dateKey(new Date(file.stat.ctime)), dateKey(new Date(file.stat.mtime))]));
+  }
+
+  /**
+   * Moves a note's activity counts from the days it was counted on to its
+   * current ones, adding both to `days`. Until a calendar first asks for the
+   * counts there is nothing to update.
+   */
+  private updateActivity(path: string, file: TFile | null, days: Set<string>): void {
+    const counts = this.activityCounts;
+    if (!counts) {
+      return;
+    }
+    const previous = this.activityDays.get(path) ?? [];
+    const current = file?.extension === "md" ? this.activityDaysOf(file) : [];
+    for (const key of previous) {
+      const count = (counts.get(key) ?? 0) - 1;
+      if (count > 0) {
+        counts.set(key, count);
+      } else {
+        counts.delete(key);
+      }
+    }
+    for (const key of current) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    if (current.length > 0) {
+      this.activityDays.set(path, current);
+    } else {
+      this.activityDays.delete(path);
+    }
+    [...previous, ...current].forEach((key) => days.add(key));
+  }
+
+  private notify(days: Set<string>): void {
+    if (days.size > 0) {
+      this.trigger("changed", days);
+    }
+  }
+
+  /**
+   * Extracts a file's events, or returns null if a newer update for the same
+   * file started while this one was reading the note body.
+   */
+  private async extractLatest(file: TFile): Promise<CalendarEvent[] | null> {
+    const version = (this.versions.get(file.path) ?? 0) + 1;
+    this.versions.set(file.path, version);
+    const events = await this.extractEventsFromFile(file);
+    return this.versions.get(file.path) === version ? events : null;
+  }
+
+  /** Provider events are stored like a file's, under a key no vault path can have */
+  private providerKey(id: string): string {
+    return `provider:${id}`;
+  }
+
+  private async fetchProviderEvents(provider: CalendarEventProvider): Promise<CalendarEvent[] | null> {
+    const displayed = this.displayWindow;
+    if (!displayed || this.plugin.settings.disabledProviders.includes(provider.id)) {
+      return [];
+    }
+
+    let external: ExternalCalendarEvent[];
+    try {
+      external = await provider.getEvents(displayed.start, displayed.end);
+      if (!Array.isArray(external)) {
+        throw new TypeError("getEvents() did not return an array");
+      }
+    } catch (error) {
+      console.error(`Linear Calendar: event provider "${provider.id}" failed`, error);
+      return null;
+    }
+
+    const rule = this.plugin.settings.colorRules.find(
+      (r) => r.type === "source" && [provider.id, "external"].includes(r.match.trim())
+    );
+    const isDate = (date: unknown): date is Date => date instanceof Date && !isNaN(date.getTime());
+    return external
+      .filter((event) => isDate(event.startDate))
+      .map((event) => {
+        // Like calendar files, events are placed by day; only one ending on a later day is a range
+        const startDay = moment(event.startDate).startOf("day");
+        const endDay = isDate(event.endDate) ? moment(event.endDate).startOf("day") : null;
+        return {
+          title: event.title,
+          file: event.file,
+          source: "external" as const,
+          startDate: startDay.toDate(),
+          endDate: endDay?.isAfter(startDay) ? endDay.toDate() : undefined,
+          color: event.color ?? rule?.color,
+          tags: event.tags,
+          uid: event.id,
+          provider: provider.id,
+          onClick: event.onClick,
+        };
+      });
+  }
+
+  private addEvents(path: string, events: CalendarEvent[], days: Set<string>): void {
+    if (events.length === 0) {
+      return;
+    }
+    this.byFile.set(path, events);
+
+    for (const event of events) {
+      this.collectDays(event, days);
+      if (event.endDate) {
+        this.ranges.add(event);
+        continue;
+      }
+      const key = dateKey(event.startDate);
+      if (!this.byDay.has(key)) {
+        this.byDay.set(key, []);
+      }
+      this.byDay.get(key)?.push(event);
+    }
+  }
+
+  private removePath(path: string, days: Set<string>): void {
+    const events = this.byFile.get(path);
+    if (!events) {
+      return;
+    }
+    this.byFile.delete(path);
+
+    for (const event of events) {
+      this.collectDays(event, days);
+      if (event.endDate) {
+        this.ranges.delete(event);
+        continue;
+      }
+      const key = dateKey(event.startDate);
+      const remaining = this.getEventsForDay(key).filter((e) => e !== event);
+      if (remaining.length > 0) {
+        this.byDay.set(key, remaining);
+      } else {
+        this.byDay.delete(key);
+      }
+    }
+  }
+
+  private collectDays(event: CalendarEvent, days: Set<string>): void {
+    const day = moment(event.startDate).startOf("day");
+    const last = moment(event.endDate ?? event.startDate).startOf("day");
+    while (!day.isAfter(last)) {
+      days.add(dateKey(day.toDate()));
+      day.add(1, "day");
+    }
+  }
+
+  private isShadingFile(path: string): boolean {
+    const shadingFile = this.plugin.settings.shadingFile;
+    return shadingFile !== "" && normalizePath(shadingFile) === path;
+  }
+
+  private async readShadingFile(): Promise<DateShading[]> {
+    const shadingFile = this.plugin.settings.shadingFile;
+    const file = shadingFile ? this.app.vault.getFileByPath(normalizePath(shadingFile)) : null;
+    if (!file) {
+      return [];
+    }
+    return parseShadingLines(await this.app.vault.cachedRead(file));
+  }
+
+  private isIcsFile(file: TFile): boolean {
+    return (
+      file.extension === "ics" &&
+      this.plugin.settings.icsPaths.some((path) => matchesGlob(file.path, path))
+    );
+  }
+
+  private async extractIcsEvents(file: TFile): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+    const color = this.resolveEventColor(file, null, "ics");
+    const range = this.expansionRange();
+    const icsEvents = parseIcs(await this.app.vault.cachedRead(file));
+
+    // Recurring calendar entries are expanded again when the displayed range changes
+    if (icsEvents.some((icsEvent) => icsEvent.rrule)) {
+      this.recurringPaths.add(file.path);
+    } else {
+      this.recurringPaths.delete(file.path);
+    }
+
+    for (const icsEvent of icsEvents) {
+      for (const occurrence of expandIcsEvent(icsEvent, range)) {
+        const startDay = moment(occurrence).startOf("day");
+        if (icsEvent.rrule && startDay.clone().add(icsEvent.days, "days").isBefore(range.start, "day")) {
+          continue;
+        }
+        events.push({
+          title: icsEvent.summary,
+          file,
+          source: "ics",
+          startDate: startDay.toDate(),
+          endDate: icsEvent.days > 0 ? startDay.clone().add(icsEvent.days, "days").toDate() : undefined,
+          color,
+          uid: icsEvent.uid,
+        });
+      }
+    }
+    return events;
+  }
+
+  private async extractEventsFromFile(file: TFile): Promise<CalendarEvent[]> {
+    if (file.extension === "ics") {
+      return this.extractIcsEvents(file);
+    }
+
+    const events: CalendarEvent[] = [];
+    const settings = this.plugin.settings;
+    const cache = this.app.metadataCache.getFileCache(file);
+    const tags = this.getTags(cache);
+    const issues: DateIssue[] = [];
+    this.dateIssues.delete(file.path);
+
+    if (!this.isIncluded(file, tags)) {
+      return events;
+    }
+
+    // Check if it's a daily note
+    const dailyDate = settings.showDailyNotes ? this.parseDailyNoteDate(file) : null;
+    if (dailyDate) {
+      events.push({
+        ...this.createEvent(file, cache, "daily-note", dailyDate),
+        wordCount: this.wordsRequested || settings.heatmapMetric === "words"
+          ? await this.countWords(file, cache)
+          : undefined,
+      });
+    }
+
+    // Check frontmatter date fields
+    const frontmatterEvents: CalendarEvent[] = [];
+    if (settings.showFrontmatterDates && cache?.frontmatter) {
+      for (const field of settings.dateFields) {
+        // A list holds one event per entry
+        const value: unknown = cache.frontmatter[field];
+        const entries = Array.isArray(value) ? value : [value];
+        entries.forEach((entry, index) => {
+          const parsed = this.readDate(entry, field, issues);
+          if (parsed) {
+            frontmatterEvents.push({
+              ...this.createEvent(file, cache, "frontmatter", parsed.date),
+              field,
+              hasTime: parsed.hasTime || undefined,
+              valueIndex: Array.isArray(value) ? index : undefined,
+            });
+          }
+        });
+      }
+    }
+
+    // Check frontmatter start/end ranges
+    const ranges = settings.showFrontmatterDates ? this.extractRangesFromFile(cache, issues) : [];
+    for (const range of ranges) {
+      frontmatterEvents.push({
+        ...this.createEvent(file, cache, "frontmatter", range.start, range.end),
+        field: range.field.start,
+        endField: range.end ? range.field.end : undefined,
+      });
+    }
+    events.push(...this.expandRecurring(file, cache, frontmatterEvents, issues));
+
+    // Check tasks and inline fields in the note body
+    events.push(...(await this.extractBodyEvents(file, cache, issues)));
+
+    if (issues.length > 0) {
+      this.dateIssues.set(file.path, issues);
+    }
+
+    // Check file creation date
+    if (settings.showFileCreationDates && events.length === 0) {
+      events.push(this.createEvent(file, cache, "file-created", new Date(file.stat.ctime)));
+    }
+
+    return events;
+  }
+
+  /**
+   * Replaces a repeating note's frontmatter events with their occurrences in
+   * the displayed window. The repeat field can be narrowed by companion
+   * fields named after it: "-interval", "-until" and "-except".
+   */
+  private expandRecurring(
+    file: TFile,
+    cache: CachedMetadata | null,
+    events: CalendarEvent[],
+    issues: DateIssue[]
+  ): CalendarEvent[] {
+    const field = this.plugin.settings.repeatField;
+    const frontmatter = cache?.frontmatter;
+    const repeat: unknown = field ? frontmatter?.[field] : undefined;
+    const rule = parseRepeatRule(repeat);
+    if (!rule || events.length === 0) {
+      this.recurringPaths.delete(file.path);
+      return events;
+    }
+    this.recurringPaths.add(file.path);
+
+    const interval = Number(frontmatter?.[`${field}-interval`]);
+    if (Number.isInteger(interval) && interval > 0) {
+      rule.INTERVAL = String(interval);
+    }
+    const until = this.readDate(frontmatter?.[`${field}-until`], `${field}-until`, issues);
+    if (until) {
+      rule.UNTIL = moment(until.date).format("YYYYMMDD");
+    }
+    const except: unknown = frontmatter?.[`${field}-except`];
+    const exdates = new Set(
+      (Array.isArray(except) ? except : [except])
+        .map((value) => this.readDate(value, `${field}-except`, issues))
+        .filter((parsed): parsed is ParsedDate => parsed !== null)
+        .map((parsed) => dateKey(parsed.date))
+    );
+
+    const range = this.expansionRange();
+    const recurrence = String(repeat).trim();
+
+    return events.flatMap((event) => {
+      const days = event.endDate
+        ? moment(event.endDate).startOf("day").diff(moment(event.startDate).startOf("day"), "days")
+        : 0;
+      const occurrences = expandIcsEvent(
+        {
+          uid: file.path,
+          summary: event.title,
+          start: { date: event.startDate, allDay: true },
+          days,
+          rrule: rule,
+          exdates,
+        },
+        range
+      );
+      return occurrences
+        .filter((date) => !moment(date).add(days, "days").isBefore(range.start, "day"))
+        .map((date) => ({
+          ...event,
+          // Occurrences are whole days; a timed event keeps its time on each
+          startDate: event.hasTime
+            ? moment(date).hours(event.startDate.getHours()).minutes(event.startDate.getMinutes()).toDate()
+            : date,
+          endDate: event.endDate ? moment(date).add(days, "days").toDate() : undefined,
+          recurrence,
+        }));
+    });
+  }
+
+  /** Days repeating events are expanded over; before any view asks for a range, the current year */
+  private expansionRange(): { start: Date; end: Date } {
+    return this.displayWindow ?? {
+      start: moment().startOf("year").toDate(),
+      end: moment().endOf("year").toDate(),
+    };
+  }
+
+  private isIncluded(file: TFile, tags: string[]): boolean {
+    const settings = this.plugin.settings;
+    const matchesFolder = (glob: string): boolean => matchesGlob(file.path, glob);
+    const matchesTag = (glob: string): boolean => tags.some((tag) => matchesGlob(tag, glob));
+
+    if (settings.includeFolders.length > 0 && !settings.includeFolders.some(matchesFolder)) {
+      return false;
+    }
+    if (settings.includeTags.length > 0 && !settings.includeTags.some(matchesTag)) {
+      return false;
+    }
+    return !settings.excludeFolders.some(matchesFolder) && !settings.excludeTags.some(matchesTag);
+  }
+
+  private getTags(cache: CachedMetadata | null): string[] {
+    const tags = (cache ? getAllTags(cache) : null) ?? [];
+    return tags.map((tag) => tag.replace(/^#/, ""));
+  }
+
+  private createEvent(
+    file: TFile,
+    cache: CachedMetadata | null,
+    source: EventSource,
+    startDate: Date,
+    endDate?: Date
+  ): CalendarEvent {
+    return {
+      title: file.basename,
+      file,
+      source,
+      startDate,
+      endDate,
+      color: this.resolveEventColor(file, cache, source),
+      tags: this.getTags(cache),
+    };
+  }
+
+  private async countWords(file: TFile, cache: CachedMetadata | null): Promise<number> {
+    const content = await this.app.vault.cachedRead(file);
+    const body = content.slice(cache?.frontmatterPosition?.end.offset ?? 0);
+    return (body.match(/\S+/g) ?? []).length;
+  }
+
+  private async extractBodyEvents(
+    file: TFile,
+    cache: CachedMetadata | null,
+    issues: DateIssue[]
+  ): Promise<CalendarEvent[]> {
+    const settings = this.plugin.settings;
+    const inlineFields = settings.inlineDateFields.map((f) => f.toLowerCase());
+    const taskItems = settings.showTaskDates
+      ? (cache?.listItems ?? []).filter((item) => item.task !== undefined)
+      : [];
+
+    // Inline fields can appear anywhere, so only skip reading when neither applies
+    if (taskItems.length === 0 && inlineFields.length === 0) {
+      return [];
+    }
+
+    const lines = (await this.app.vault.cachedRead(file)).split("\n");
+    const tasks = new Map<number, ListItemCache>();
+    for (const item of taskItems) {
+      tasks.set(item.position.start.line, item);
+    }
+
+    // Frontmatter and code blocks never hold body dates
+    const skipped = new Set<number>();
+    const blocks = (cache?.sections ?? []).filter(
+      (section) => section.type === "yaml" || section.type === "code"
+    );
+    for (const block of blocks) {
+      for (let line = block.position.start.line; line <= block.position.end.line; line++) {
+        skipped.add(line);
+      }
+    }
+
+    const events: CalendarEvent[] = [];
+    lines.forEach((text, line) => {
+      if (skipped.has(line)) {
+        return;
+      }
+      const task = tasks.get(line);
+      if (!task && inlineFields.length === 0) {
+        return;
+      }
+
+      const found = this.findBodyDates(text, line, inlineFields, task !== undefined, issues);
+      const seen = new Set<string>();
+      for (const { field, date, hasTime } of found) {
+        const key = dateKey(date);
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+
+        const source: EventSource = task ? "task" : "inline-field";
+        events.push({
+          ...this.createEvent(file, cache, source, date),
+          title: (task && this.taskTitle(text)) || file.basename,
+          field,
+          hasTime: hasTime || undefined,
+          line,
+          completed: task ? task.task !== " " : undefined,
+        });
+      }
+    });
+    return events;
+  }
+
+  private findBodyDates(
+    text: string,
+    line: number,
+    inlineFields: string[],
+    isTask: boolean,
+    issues: DateIssue[]
+  ): ({ field: string } & ParsedDate)[] {
+    const found: ({ field: string } & ParsedDate)[] = [];
+
+    if (isTask) {
+      for (const match of Array.from(text.matchAll(TASK_EMOJI_DATE))) {
+        const parsed = parseDateValue(match[2], ["YYYY-MM-DD"]);
+        if (parsed) {
+          found.push({ field: TASK_EMOJI_FIELDS[match[1]] ?? "due", ...parsed });
+        }
+      }
+    }
+
+    const body = text.replace(LIST_ITEM_PREFIX, "");
+    for (const match of Array.from(body.matchAll(INLINE_FIELD))) {
+      const field = match[1].trim().toLowerCase();
+      if (!inlineFields.includes(field)) {
+        continue;
+      }
+      const parsed = this.readDate(match[2].trim(), field, issues, line);
+      if (parsed) {
+        found.push({ field, ...parsed });
+      }
+    }
+
+    return found;
+  }
+
+  private taskTitle(text: string): string {
+    return text
+      .replace(LIST_ITEM_PREFIX, "")
+      .replace(TASK_EMOJI_DATE, "")
+      .replace(INLINE_FIELD, "")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  private extractRangesFromFile(cache: CachedMetadata | null, issues: DateIssue[]): DateRange[] {
+    const ranges: DateRange[] = [];
+    const frontmatter = cache?.frontmatter;
+    if (!frontmatter) {
+      return ranges;
+    }
+
+    for (const field of this.plugin.settings.rangeFields) {
+      const start = this.readDate(frontmatter[field.start], field.start, issues);
+      if (!start) {
+        continue;
+      }
+      const startDay = moment(start.date).startOf("day");
+      const end = this.readDate(frontmatter[field.end], field.end, issues);
+      const endDay = end ? moment(end.date).startOf("day") : null;
+
+      // A missing or non-increasing end date falls back to a single-day event
+      if (endDay && endDay.isAfter(startDay)) {
+        ranges.push({ field, start: startDay.toDate(), end: endDay.toDate() });
+      } else {
+        ranges.push({ field, start: startDay.toDate() });
+      }
+    }
+
+    return ranges;
+  }
+
+  private resolveEventColor(
+    file: TFile,
+    cache: CachedMetadata | null,
+    source: EventSource
+  ): string | undefined {
+    const settings = this.plugin.settings;
+
+    // A color set in the note itself wins over any rule
+    const override: unknown = cache?.frontmatter?.[settings.colorField];
+    if (typeof override === "string" && override.trim()) {
+      return override.trim();
+    }
+
+    const rule = settings.colorRules.find((r) =>
+      this.matchesColorRule(r, file, cache, source)
+    );
+    return rule?.color;
+  }
+
+  private matchesColorRule(
+    rule: ColorRule,
+    file: TFile,
+    cache: CachedMetadata | null,
+    source: EventSource
+  ): boolean {
+    const match = rule.match.trim();
+    if (!match) {
+      return false;
+    }
+
+    switch (rule.type) {
+      case "tag": {
+        const tag = (match.startsWith("#") ? match : `#${match}`).toLowerCase();
+        const tags = (cache ? getAllTags(cache) : null) ?? [];
+        return tags.some((t) => {
+          const lower = t.toLowerCase();
+          return lower === tag || lower.startsWith(`${tag}/`);
+        });
+      }
+      case "folder": {
+        const folder = match.replace(/^\/+|\/+$/g, "");
+        return file.path.startsWith(`${folder}/`);
+      }
+      case "property": {
+        // "key" matches any value, "key=value" matches that value
+        const [key, ...rest] = match.split("=");
+        const expected = rest.join("=").trim().toLowerCase();
+        const value: unknown = cache?.frontmatter?.[key.trim()];
+        if (value === undefined || value === null) {
+          return false;
+        }
+        if (!expected) {
+          return true;
+        }
+        const values: unknown[] = Array.isArray(value) ? value : [value];
+        return values.some((v) => String(v).toLowerCase() === expected);
+      }
+      case "source":
+        return match === source;
+    }
+    return false;
+  }
+
+  private parseDailyNoteDate(file: TFile): Date | null {
+    const { folder, format } = this.plugin.getDailyNoteConfig();
+
+    const prefix = folder ? `${normalizePath(folder)}/` : "";
+    if (!file.path.startsWith(prefix)) {
+      return null;
+    }
+
+    // The format may include subfolders, so match the path below the daily notes folder;
+    // notes filed into subfolders of their own still match by name
+    const name = file.path.slice(prefix.length, file.path.length - file.extension.length - 1);
+    const parsed = [name, file.basename]
+      .map((text) => moment(text, format, true))
+      .find((date) => date.isValid());
+    return parsed ? parsed.toDate() : null;
+  }
+
+  /**
+   * Parses a single field value with the field's formats. A wiki-link may
+   * also name a daily note. Values that are set but aren't a date, including
+   * lists where one date is expected, are recorded as issues.
+   */
+  private readDate(value: unknown, field: string, issues: DateIssue[], line?: number): ParsedDate | null {
+    if (value === undefined || value === null || value === "") {
+      return null;
+    }
+    const formats = this.plugin.getDateFormats(field);
+    const parsed = Array.isArray(value)
+      ? null
+      : parseDateValue(value, formats, [...formats, this.plugin.getDailyNoteConfig().format]);
+    if (!parsed) {
+      issues.push({ field, value: typeof value === "object" ? JSON.stringify(value) : String(value), line });
+    }
+    return parsed;
+  }
+}
+
+/**
+ * Rewrites the note content that produced an event so it lands on another day,
+ * and remembers enough to undo the change.
+ */
+class EventRescheduler {
+  private plugin: LinearCalendarPlugin;
+  private app: App;
+  private history: RescheduleUndo[] = [];
+
+  constructor(plugin: LinearCalendarPlugin) {
+    this.plugin = plugin;
+    this.app = plugin.app;
+  }
+
+  canReschedule(event: CalendarEvent): boolean {
+    // Moving one occurrence would move the whole series
+    if (event.recurrence) {
+      return false;
+    }
+    switch (event.source) {
+      case "daily-note":
+        return true;
+      case "frontmatter":
+        return event.field !== undefined;
+      case "task":
+      case "inline-field":
+        return event.line !== undefined;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Moves an event by the days between `from` and `target`, so a range
+   * dragged by its middle keeps that day under the pointer. `from` defaults
+   * to the event's start.
+   */
+  async reschedule(event: CalendarEvent, target: Date, from: Date = event.startDate): Promise<void> {
+    const days = moment(target).startOf("day").diff(moment(from).startOf("day"), "days");
+    const file = event.file;
+    if (days === 0 || !file || !this.canReschedule(event)) {
+      return;
+    }
+    const newStart = moment(event.startDate).add(days, "days").toDate();
+
+    let undo: RescheduleUndo | null;
+    try {
+      if (event.source === "daily-note") {
+        undo = await this.renameDailyNote(file, event.startDate, newStart);
+      } else if (event.source === "frontmatter") {
+        undo = await this.shiftFrontmatter(event, file, days);
+      } else {
+        undo = await this.shiftLine(event, file, days);
+      }
+    } catch (error) {
+      console.error("Linear Calendar: failed to reschedule event", error);
+      new Notice(`Could not reschedule ${event.title}`);
+      return;
+    }
+    if (!undo) {
+      return;
+    }
+
+    this.pushUndo(undo, `Moved ${event.title} to ${moment(newStart).format("ll")}.`);
+  }
+
+  canRemoveDate(event: CalendarEvent): boolean {
+    switch (event.source) {
+      case "frontmatter":
+        return event.field !== undefined;
+      case "task":
+      case "inline-field":
+        return event.line !== undefined && event.field !== undefined;
+      default:
+        return false;
+    }
+  }
+
+  /** Deletes the frontmatter field, list entry, task date or inline field behind an event */
+  async removeDate(event: CalendarEvent): Promise<void> {
+    const file = event.file;
+    if (!file || !this.canRemoveDate(event)) {
+      return;
+    }
+
+    let undo: RescheduleUndo | null;
+    try {
+      undo = event.source === "frontmatter"
+        ? await this.removeFrontmatterDate(event, file)
+        : await this.removeLineDate(event, file);
+    } catch (error) {
+      console.error("Linear Calendar: failed to remove event date", error);
+      new Notice(`Could not remove the date from ${event.title}`);
+      return;
+    }
+    if (undo) {
+      this.pushUndo(undo, `Removed the date from ${event.title}.`);
+    }
+  }
+
+  private pushUndo(undo: RescheduleUndo, text: string): void {
+    this.history.push(undo);
+    const message = createFragment((frag) => {
+      frag.appendText(`${text} `);
+      const undoLink = frag.createEl("a", { text: "Undo", href: "#" });
+      undoLink.addEventListener("click", (ev) => {
+        ev.preventDefault();
+        void this.undo(undo);
+      });
+    });
+    new Notice(message, 8000);
+  }
+
+  /** Reverts the given change, as a notice's Undo link does, or else the most recent one */
+  async undo(entry?: RescheduleUndo): Promise<void> {
+    const index = entry ? this.history.indexOf(entry) : this.history.length - 1;
+    const undo = index >= 0 ? this.history.splice(index, 1)[0] : undefined;
+    if (!undo) {
+      new Notice("Nothing to undo");
+      return;
+    }
+
+    switch (undo.kind) {
+      case "frontmatter":
+        await this.app.fileManager.processFrontMatter(undo.file, (frontmatter: Record<string, unknown>) => {
+          Object.assign(frontmatter, undo.values);
+        });
+        break;
+      case "line": {
+        let restored = false;
+        await this.app.vault.process(undo.file, (content) => {
+          const lines = content.split("\n");
+          // Edited since, so restoring the line would throw that edit away
+          if (lines[undo.line] !== undo.changed) {
+            return content;
+          }
+          restored = true;
+          lines[undo.line] = undo.text;
+          return lines.join("\n");
+        });
+        if (!restored) {
+          new Notice(`${undo.file.basename} has changed since, so it was left as it is`);
+          return;
+        }
+        break;
+      }
+      case "rename":
+        await this.app.fileManager.renameFile(undo.file, undo.path);
+        break;
+    }
+    new Notice(`Restored ${undo.file.basename}`);
+  }
+
+  private async shiftFrontmatter(event: CalendarEvent, file: TFile, days: number): Promise<RescheduleUndo | null> {
+    const fields = [event.field, event.endField].filter((f): f is string => f !== undefined);
+    const values: Record<string, unknown> = {};
+
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+      for (const field of fields) {
+        const value = frontmatter[field];
+        const formats = [...this.plugin.getDateFormats(field), ...DATE_VALUE_FORMATS];
+        // In a list, only the entry that produced the event moves
+        if (Array.isArray(value) && event.valueIndex !== undefined) {
+          const shifted = shiftDateValue(value[event.valueIndex], days, formats);
+          if (shifted !== null) {
+            values[field] = value;
+            frontmatter[field] = value.map((entry, index) => (index === event.valueIndex ? shifted : entry));
+          }
+          continue;
+        }
+        const shifted = shiftDateValue(value, days, formats);
+        if (shifted !== null) {
+          values[field] = value;
+          frontmatter[field] = shifted;
+        }
+      }
+    });
+
+    if (Object.keys(values).length === 0) {
+      new Notice(`Could not read the date in ${event.title}`);
+      return null;
+    }
+    return { kind: "frontmatter", file, values };
+  }
+
+  private async removeFrontmatterDate(event: CalendarEvent, file: TFile): Promise<RescheduleUndo | null> {
+    const fields = [event.field, event.endField].filter((f): f is string => f !== undefined);
+    const values: Record<string, unknown> = {};
+
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+      for (const field of fields) {
+        const value = frontmatter[field];
+        if (value === undefined) {
+          continue;
+        }
+        values[field] = value;
+        // In a list, only the entry that produced the event goes
+        const rest = Array.isArray(value) && event.valueIndex !== undefined
+          ? value.filter((_, index) => index !== event.valueIndex)
+          : [];
+        if (rest.length > 0) {
+          frontmatter[field] = rest;
+        } else {
+          delete frontmatter[field];
+        }
+      }
+    });
+
+    if (Object.keys(values).length === 0) {
+      new Notice(`${event.title} no longer has that date`);
+      return null;
+    }
+    return { kind: "frontmatter", file, values };
+  }
+
+  private async removeLineDate(event: CalendarEvent, file: TFile): Promise<RescheduleUndo | null> {
+    const field = event.field ?? "";
+    return this.changeLine(event, file, event.line ?? 0, (text) =>
+      removeBodyDate(text, field, event.startDate, this.bodyDateFormats(field))
+    );
+  }
+
+  private async shiftLine(event: CalendarEvent, file: TFile, days: number): Promise<RescheduleUndo | null> {
+    const field = event.field ?? "";
+    return this.changeLine(event, file, event.line ?? 0, (text) =>
+      shiftBodyDate(text, field, event.startDate, days, this.bodyDateFormats(field))
+    );
+  }
+
+  /** The formats an inline field's value may have been read with, as `readDate` tries them */
+  private bodyDateFormats(field: string): string[] {
+    return [...this.plugin.getDateFormats(field), ...DATE_VALUE_FORMATS, this.plugin.getDailyNoteConfig().format];
+  }
+
+  /** Rewrites an event's line, remembering it for undo, or returns null when `change` finds nothing */
+  private async changeLine(
+    event: CalendarEvent,
+    file: TFile,
+    line: number,
+    change: (text: string) => string | null
+  ): Promise<RescheduleUndo | null> {
+    let undo: RescheduleUndo | null = null;
+
+    await this.app.vault.process(file, (content) => {
+      const lines = content.split("\n");
+      const text = lines[line];
+      const updated = text === undefined ? null : change(text);
+      if (updated === null) {
+        return content;
+      }
+      undo = { kind: "line", file, line, text, changed: updated };
+      lines[line] = updated;
+      return lines.join("\n");
+    });
+
+    if (!undo) {
+      new Notice(`Could not find the date for ${event.title} on its line`);
+    }
+    return undo;
+  }
+
+  private async renameDailyNote(file: TFile, from: Date, target: Date): Promise<RescheduleUndo | null> {
+    // A note where the format puts it moves to where the format puts the new date,
+    // subfolders and all; one filed away by hand keeps its folder
+    let path = this.plugin.getPeriodicNotePath("day", target);
+    if (this.plugin.getPeriodicNotePath("day", from) !== file.path) {
+      const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : "";
+      path = `${folder}${path.slice(path.lastIndexOf("/") + 1)}`;
+    }
+    const name = path.slice(path.lastIndexOf("/") + 1, -".md".length);
+
+    if (this.app.vault.getAbstractFileByPath(path)) {
+      new Notice(`${name} already exists`);
+      return null;
+    }
+
+    const confirmed = await new ConfirmModal(
+      this.app,
+      "Rename daily note",
+      `Rename ${file.basename} to ${name}? Links to it will be updated.`,
+      "Rename"
+    ).confirm();
+    if (!confirmed) {
+      return null;
+    }
+
+    const oldPath = file.path;
+    const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+    if (parent && !this.app.vault.getAbstractFileByPath(parent)) {
+      await this.app.vault.createFolder(parent);
+    }
+    await this.app.fileManager.renameFile(file, path);
+    return { kind: "rename", file, path: oldPath };
+  }
+}
+
+/**
+ * The calendar grid and its header, rendered into any element. The calendar
+ * view hosts one in its tab, and `linear-calendar` code blocks embed others
+ * with their own options layered over the settings.
+ */
+class LinearCalendar extends Component {
+  plugin: LinearCalendarPlugin;
+  private app: App;
+  private contentEl: HTMLElement;
+  /** Local display settings of an embed, or null when changes go to the plugin settings */
+  private overrides: CalendarOverrides | null;
+  private scope: CalendarScope;
+  private embedded: boolean;
+  private state: CalendarViewState;
+  private onStateChange: (() => void) | undefined;
+  /** Range mode of the last render, to drop a shift that belonged to another mode */
+  private renderedRangeMode: RangeMode | null = null;
+  private dayCells: Map<string, HTMLElement> = new Map();
+  private monthRows: Map<string, MonthRow> = new Map();
+  private pendingDays: Set<string> = new Set();
+  private pendingFullRender = false;
+  private filter: CalendarFilter = { text: "", tags: "" };
+  private gridEl: HTMLElement | null = null;
+  private weekdayRow: HTMLElement | null = null;
+  private rangeLabelEl: HTMLElement | null = null;
+  private scaleValueEls: Partial<Record<ScaleKey, HTMLElement>> = {};
+  /** Draws month rows as they come near the viewport */
+  private rowObserver: IntersectionObserver | null = null;
+  /** The event behind each pill and bar, for the grid's delegated listeners */
+  private eventEls: WeakMap<HTMLElement, CalendarEvent> = new WeakMap();
+  private gesture: TouchGesture | null = null;
+  private draggedEvent: CalendarEvent | null = null;
+  /** The day the dragged pill or bar was grabbed on */
+  private dragOrigin: Date | null = null;
+  /** Days being drag-selected for a new event, from the day the drag started on */
+  private selection: { anchor: Date; current: Date } | null = null;
+  private selectedKeys: string[] = [];
+  private dayPopover: { el: HTMLElement; anchor: HTMLElement } | null = null;
+  private displayMonths: Date[] = [];
+  private heatmapMax = 0;
+  /** Heat of each displayed day, so a patch recomputes only the days it touches */
+  private heatValues: Map<string, number> = new Map();
+  private focusedKey: string | null = null;
+  private shadingByDay: Map<string, DateShading[]> = new Map();
+  private pendingFocus = false;
+  private statusEl: HTMLElement | null = null;
+  private heatmapMaxEl: HTMLElement | null = null;
+  private scheduleUpdate = debounce(() => this.flushUpdates(), 250, true);
+
+  constructor(plugin: LinearCalendarPlugin, contentEl: HTMLElement, options: CalendarOptions = {}) {
+    super();
+    this.plugin = plugin;
+    this.app = plugin.app;
+    this.contentEl = contentEl;
+    this.embedded = options.embedded ?? false;
+    this.overrides = options.embedded ? { ...options.overrides } : null;
+    this.scope = { folders: [], tags: [], fields: [], ...options.scope };
+    this.onStateChange = options.onStateChange;
+    this.filter = { text: options.filter?.text ?? "", tags: options.filter?.tags ?? "" };
+    const settings = this.settings;
+    this.state = {
+      year: this.currentYear(),
+      rangeShift: 0,
+      scaleX: settings.defaultScaleX,
+      scaleY: settings.defaultScaleY,
+      fontScale: settings.defaultFontScale,
+      ...options.state,
+    };
+  }
+
+  onload(): void {
+    void this.open();
+  }
+
+  private async open(): Promise<void> {
+    // Lives next to the re-rendered content so announcements aren't lost
+    this.statusEl = (this.contentEl.parentElement ?? this.contentEl).createDiv({
+      cls: "linear-calendar-sr-only",
+      attr: { "aria-live": "polite", role: "status" },
+    });
+
+    await this.plugin.eventIndex.ensureBuilt();
+    this.registerGridListeners();
+    this.render();
+
+    // Close the day details when clicking anywhere else
+    this.registerDomEvent(document, "mousedown", (ev) => {
+      if (this.dayPopover && !this.dayPopover.el.contains(ev.target as Node)) {
+        this.closeDayDetails(false);
+      }
+    });
+
+    // A selection across days ends wherever the pointer is released
+    this.registerDomEvent(window, "pointerup", () => this.finishSelection());
+    this.registerDomEvent(window, "pointercancel", () => {
+      this.selection = null;
+      this.clearSelection();
+    });
+
+    this.registerEvent(
+      this.plugin.eventIndex.on("changed", (days) => {
+        if (days) {
+          days.forEach((key) => this.pendingDays.add(key));
+        } else {
+          this.pendingFullRender = true;
+        }
+        this.scheduleUpdate();
+      })
+    );
+
+    // Weekly and monthly notes aren't events, but their indicators follow them
+    const onNoteChange = (path: string) => this.queuePeriodicNoteUpdate(path);
+    this.registerEvent(this.app.vault.on("create", (file) => onNoteChange(file.path)));
+    this.registerEvent(this.app.vault.on("delete", (file) => onNoteChange(file.path)));
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        onNoteChange(oldPath);
+        onNoteChange(file.path);
+      })
+    );
+  }
+
+  private queuePeriodicNoteUpdate(path: string): void {
+    if (!path.endsWith(".md")) {
+      return;
+    }
+    for (const period of ["week", "month"] as const) {
+      const { folder, format } = this.plugin.getPeriodicNoteConfig(period);
+      const prefix = folder ? `${normalizePath(folder)}/` : "";
+      if (!path.startsWith(prefix)) {
+        continue;
+      }
+      const parsed = moment(path.slice(prefix.length, -3), format, true);
+      if (!parsed.isValid() || this.plugin.getPeriodicNotePath(period, parsed.toDate()) !== path) {
+        continue;
+      }
+      if (period === "month") {
+        this.pendingFullRender = true;
+      } else {
+        const monday = parsed.clone().startOf("isoWeek");
+        for (let i = 0; i < 7; i++) {
+          this.pendingDays.add(dateKey(monday.clone().add(i, "days").toDate()));
+        }
+      }
+      this.scheduleUpdate();
+    }
+  }
+
+  getFilter(): CalendarFilter {
+    return this.filter;
+  }
+
+  getViewState(): CalendarViewState {
+    return { ...this.state };
+  }
+
+  setViewState(state: Partial<CalendarViewState>): void {
+    Object.assign(this.state, state);
+    this.applyScale();
+    this.renderRange();
+  }
+
+  private updateState(changes: Partial<CalendarViewState>): void {
+    Object.assign(this.state, changes);
+    this.onStateChange?.();
+  }
+
+  /** The year whose calendar or fiscal year contains today */
+  private currentYear(): number {
+    const settings = this.settings;
+    const today = new Date();
+    // A fiscal year is named after the calendar year it starts in
+    const isBeforeFiscalStart = settings.rangeMode === "fiscal" && today.getMonth() < settings.fiscalStartMonth;
+    return today.getFullYear() - (isBeforeFiscalStart ? 1 : 0);
+  }
+
+  setFilter(filter: Partial<CalendarFilter>): void {
+    this.filter = { text: filter.text ?? "", tags: filter.tags ?? "" };
+    // Before the first render, open() draws with it once the index is built
+    if (this.gridEl) {
+      this.render();
+    }
+  }
+
+  /** The plugin settings with this calendar's own options layered on top */
+  private get settings(): LinearCalendarSettings {
+    return this.overrides ? { ...this.plugin.settings, ...this.overrides } : this.plugin.settings;
+  }
+
+  private updateSettings(changes: CalendarOverrides): void {
+    if (this.overrides) {
+      Object.assign(this.overrides, changes);
+    } else {
+      Object.assign(this.plugin.settings, changes);
+      void this.plugin.saveSettings();
+    }
+  }
+
+  private flushUpdates(): void {
+    if (this.pendingFullRender) {
+      this.pendingFullRender = false;
+      this.pendingDays.clear();
+      this.render();
+      return;
+    }
+
+    this.patchDays(this.pendingDays);
+    this.pendingDays.clear();
+  }
+
+  /** Redraws the given days; rows that aren't drawn yet pick up the changes when they are */
+  private patchDays(keys: Iterable<string>): void {
+    const days = Array.from(keys);
+    // A new maximum changes the level of every drawn day, not just the patched ones
+    if (this.updateHeatmapMax(days)) {
+      this.monthRows.forEach((row) => {
+        if (row.rendered) {
+          this.refreshHeat(row);
+        }
+      });
+    }
+    const monthKeys = new Set<string>();
+    for (const key of days) {
+      const monthKey = key.slice(0, 7);
+      const cell = this.dayCells.get(key);
+      if (cell && this.monthRows.get(monthKey)?.rendered) {
+        cell.empty();
+        this.renderDayContents(cell, moment(key, "YYYY-MM-DD").toDate());
+        monthKeys.add(monthKey);
+      }
+    }
+
+    for (const monthKey of monthKeys) {
+      const row = this.monthRows.get(monthKey);
+      if (row) {
+        this.renderRangeBars(row);
+      }
+    }
+  }
+
+  /** Rebuilds the header and the grid, for changes to settings or to the whole index */
+  private render(): void {
+    const container = this.contentEl;
+    const hadFocus = container.contains(document.activeElement);
+    container.empty();
+    container.addClass("linear-calendar-container");
+    this.dayPopover = null;
+    this.heatmapMaxEl = null;
+    this.weekdayRow = null;
+    this.scaleValueEls = {};
+    this.dayCells.clear();
+    this.monthRows.clear();
+    this.rowObserver?.disconnect();
+
+    const settings = this.settings;
+    if (this.renderedRangeMode && this.renderedRangeMode !== settings.rangeMode) {
+      this.state.rangeShift = 0;
+    }
+    this.renderedRangeMode = settings.rangeMode;
+
+    // Create header with year selector and scale controls
+    const header = container.createDiv({ cls: "linear-calendar-header" });
+    this.renderYearSelector(header);
+    // Embeds keep their options in the code block, so they skip the filter and size controls
+    if (!this.embedded) {
+      this.renderFilterBar(header);
+    }
+    this.renderHeatmapControls(header);
+    this.renderLegend(header);
+    if (!this.embedded) {
+      this.renderScaleControls(header);
+    }
+
+    // Create scroll wrapper for independent X/Y scrolling
+    const scrollWrapper = container.createDiv({ cls: "linear-calendar-scroll-wrapper" });
+    this.gridEl = scrollWrapper.createDiv({
+      cls: "linear-calendar-grid",
+      attr: { role: "grid", "aria-label": "Calendar" },
+    });
+    this.applyScale();
+
+    // An embed scrolls with its note, so its rows are drawn as they enter the window
+    this.rowObserver = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const row = Array.from(this.monthRows.values()).find((r) => r.el === entry.target);
+          if (entry.isIntersecting && row) {
+            this.drawRow(row);
+          }
+        }
+      },
+      { root: this.embedded ? null : scrollWrapper, rootMargin: "200px" }
+    );
+
+    this.pendingFocus = this.pendingFocus || hadFocus;
+    this.renderRange();
+  }
+
+  /**
+   * Shows the current range in the grid. Rows of months that stay in the range
+   * are kept as they are; only new months get rows.
+   */
+  private renderRange(): void {
+    const grid = this.gridEl;
+    if (!grid) {
+      return;
+    }
+    const hadFocus = grid.contains(document.activeElement);
+    this.closeDayDetails(false);
+
+    const settings = this.settings;
+    const months = this.getDisplayMonths();
+    this.displayMonths = months;
+    const lastDay = moment(months[months.length - 1]).endOf("month").startOf("day").toDate();
+    this.plugin.eventIndex.requestRange(months[0], lastDay);
+    // An embed may show word counts when the settings don't
+    if (settings.heatmap && settings.heatmapMetric === "words") {
+      this.plugin.eventIndex.requestWordCounts();
+    }
+    this.shadingByDay = this.buildShadingMap(months[0], lastDay);
+    this.updateHeatmapMax();
+    this.updateRangeLabel();
+
+    // Calculate max columns needed (max offset + 31 days)
+    const maxColumns = this.calculateMaxColumns(months);
+    if (this.weekdayRow?.dataset.columns !== String(maxColumns)) {
+      this.weekdayRow?.remove();
+      this.weekdayRow = this.renderWeekdayHeader(grid, maxColumns, settings.weekdayLabels);
+      grid.prepend(this.weekdayRow);
+    }
+
+    // Label the year wherever it isn't obvious
+    const rows = new Map<string, MonthRow>();
+    months.forEach((first, index) => {
+      const key = dateKey(first).slice(0, 7);
+      const showYear = settings.rangeMode !== "calendar" && (index === 0 || first.getMonth() === 0);
+      const existing = this.monthRows.get(key);
+      if (existing && existing.maxColumns === maxColumns && existing.showYear === showYear) {
+        rows.set(key, existing);
+        this.monthRows.delete(key);
+      } else {
+        rows.set(key, this.renderMonth(grid, first.getFullYear(), first.getMonth(), maxColumns, showYear));
+      }
+    });
+    for (const row of this.monthRows.values()) {
+      this.removeRow(row);
+    }
+    this.monthRows = rows;
+    for (const row of rows.values()) {
+      // Appending moves kept rows into their new order
+      grid.appendChild(row.el);
+      if (row.rendered && settings.heatmap) {
+        this.refreshHeat(row);
+      }
+      this.rowObserver?.observe(row.el);
+    }
+
+    // Keep keyboard focus on the same day across re-renders
+    const focusKey = this.focusedKey && this.dayCells.has(this.focusedKey)
+      ? this.focusedKey
+      : this.dayCells.has(dateKey(new Date()))
+        ? dateKey(new Date())
+        : dateKey(months[0]);
+    this.setFocusedDay(focusKey);
+    if (hadFocus || this.pendingFocus) {
+      this.pendingFocus = false;
+      this.dayCells.get(focusKey)?.focus();
+    }
+  }
+
+  private removeRow(row: MonthRow): void {
+    this.rowObserver?.unobserve(row.el);
+    row.el.remove();
+    const daysInMonth = new Date(row.year, row.month + 1, 0).getDate();
+    for (let day = 1; day <= daysInMonth; day++) {
+      this.dayCells.delete(dateKey(new Date(row.year, row.month, day)));
+    }
+  }
+
+  /** Fills a row's cells and range bars the first time it comes into view */
+  private drawRow(row: MonthRow): void {
+    if (row.rendered) {
+      return;
+    }
+    row.rendered = true;
+    this.rowObserver?.unobserve(row.el);
+    const daysInMonth = new Date(row.year, row.month + 1, 0).getDate();
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(row.year, row.month, day);
+      const cell = this.dayCells.get(dateKey(date));
+      if (cell) {
+        this.renderDayContents(cell, date);
+      }
+    }
+    this.renderRangeBars(row);
+  }
+
+  /** Draws every row, for exports that read the whole grid */
+  private drawAllRows(): void {
+    this.monthRows.forEach((row) => this.drawRow(row));
+  }
+
+  private refreshHeat(row: MonthRow): void {
+    const daysInMonth = new Date(row.year, row.month + 1, 0).getDate();
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(row.year, row.month, day);
+      const cell = this.dayCells.get(dateKey(date));
+      if (cell) {
+        this.applyHeat(cell, date);
+      }
+    }
+  }
+
+  /** Scale changes only touch the grid's CSS variables and the value labels */
+  private applyScale(): void {
+    this.gridEl?.style.setProperty("--scale-x", String(this.state.scaleX));
+    this.gridEl?.style.setProperty("--scale-y", String(this.state.scaleY));
+    this.gridEl?.style.setProperty("--font-scale", String(this.state.fontScale));
+    for (const key of ["scaleX", "scaleY", "fontScale"] as const) {
+      this.scaleValueEls[key]?.setText(`${Math.round(this.state[key] * 100)}%`);
+    }
+  }
+
+  /**
+   * Listens once on the calendar's element and finds the day, event or marker
+   * that each event is for, so rows can be drawn and dropped without wiring.
+   */
+  private registerGridListeners(): void {
+    const container = this.contentEl;
+    const inGrid = (ev: Event): HTMLElement | null => {
+      const target = ev.target;
+      return target instanceof HTMLElement && this.gridEl?.contains(target) ? target : null;
+    };
+
+    this.registerDomEvent(container, "click", (ev) => {
+      const target = inGrid(ev);
+      if (target) {
+        this.activate(target, ev);
+      }
+    });
+    this.registerDomEvent(container, "keydown", (ev) => {
+      const target = inGrid(ev);
+      if (!target) {
+        return;
+      }
+      if (target.matches("[data-date]")) {
+        this.handleCellKeydown(ev, target, moment(target.dataset.date, "YYYY-MM-DD").toDate());
+      } else if (ev.key === "Enter" || ev.key === " ") {
+        ev.preventDefault();
+        this.activate(target, ev);
+      }
+    });
+    this.registerDomEvent(container, "contextmenu", (ev) => {
+      // A long press on a touch screen opens the day details or event menu itself
+      if (this.gesture?.kind === "press") {
+        ev.preventDefault();
+        return;
+      }
+      const target = inGrid(ev);
+      const eventEl = target?.closest<HTMLElement>(".linear-calendar-event, .linear-calendar-range-bar");
+      const event = eventEl ? this.eventEls.get(eventEl) : undefined;
+      const day = target ? this.dayOf(target) : null;
+      if (event) {
+        ev.preventDefault();
+        this.showEventMenu({ x: ev.clientX, y: ev.clientY }, event);
+      } else if (day) {
+        ev.preventDefault();
+        this.showDayMenu(ev, day.date);
+      }
+    });
+    this.registerDomEvent(container, "focusin", (ev) => {
+      const target = inGrid(ev);
+      if (target?.matches("[data-date]")) {
+        this.setFocusedDay(target.dataset.date ?? "");
+      }
+    });
+
+    // Ctrl/Cmd + wheel zooms the width, with Shift the height
+    this.registerDomEvent(container, "wheel", (ev) => {
+      if (!(ev.ctrlKey || ev.metaKey) || !inGrid(ev)) {
+        return;
+      }
+      ev.preventDefault();
+      const delta = ev.deltaY > 0 ? -0.1 : 0.1;
+      this.adjustScale(ev.shiftKey ? "y" : "x", delta);
+    }, { passive: false });
+
+    this.registerDragListeners(container, inGrid);
+    this.registerSelectionListeners(container, inGrid);
+    this.registerTouchGestures(container, inGrid);
+  }
+
+  /** Runs what a click, Enter or Space does on an element in the grid */
+  private activate(target: HTMLElement, ev: MouseEvent | KeyboardEvent): void {
+    const day = this.dayOf(target);
+    const eventEl = target.closest<HTMLElement>(".linear-calendar-event, .linear-calendar-range-bar");
+    const event = eventEl ? this.eventEls.get(eventEl) : undefined;
+    const monthLabel = target.closest<HTMLElement>(".linear-calendar-month-label[data-month]");
+
+    if (target.closest(".linear-calendar-week-number") && day) {
+      void this.openOrCreateNote("week", day.date);
+    } else if (target.closest(".linear-calendar-more") && day) {
+      this.openDayDetails(day.cell, day.date);
+    } else if (event) {
+      void this.openEvent(event, ev instanceof MouseEvent ? Keymap.isModEvent(ev) : false);
+    } else if (monthLabel) {
+      void this.openOrCreateNote("month", moment(monthLabel.dataset.month, "YYYY-MM").toDate());
+    } else if (day && ev instanceof MouseEvent) {
+      // Shift-click starts a one-day event instead
+      if (ev.shiftKey) {
+        void this.createEventNote(day.date, day.date);
+      } else {
+        void this.openOrCreateNote("day", day.date);
+      }
+    }
+  }
+
+  /** The day cell an element is in, if any */
+  private dayOf(el: HTMLElement): { cell: HTMLElement; date: Date } | null {
+    const cell = el.closest<HTMLElement>(".linear-calendar-cell[data-date]");
+    return cell ? { cell, date: moment(cell.dataset.date, "YYYY-MM-DD").toDate() } : null;
+  }
+
+  private renderFilterBar(container: HTMLElement): void {
+    const bar = container.createDiv({ cls: "linear-calendar-filter-bar" });
+
+    const textInput = bar.createEl("input", {
+      cls: "linear-calendar-filter-input",
+      type: "search",
+      attr: { placeholder: "Filter events", "aria-label": "Filter events by title or path" },
+    });
+    textInput.value = this.filter.text;
+
+    const tagInput = bar.createEl("input", {
+      cls: "linear-calendar-filter-input",
+      type: "search",
+      attr: { placeholder: "#tag", "aria-label": "Filter events by tag" },
+    });
+    tagInput.value = this.filter.tags;
+
+    // Only the cells are patched so the inputs keep focus while typing
+    const applyFilter = debounce(
+      () => {
+        this.filter = { text: textInput.value, tags: tagInput.value };
+        this.patchDays(Array.from(this.dayCells.keys()));
+        this.onStateChange?.();
+      },
+      200,
+      true
+    );
+    textInput.addEventListener("input", () => applyFilter());
+    tagInput.addEventListener("input", () => applyFilter());
+  }
+
+  private matchesFilter(event: CalendarEvent): boolean {
+    const scope = this.scope;
+    if (scope.folders.length > 0 && !scope.folders.some((glob) => event.file && matchesGlob(event.file.path, glob))) {
+      return false;
+    }
+    if (scope.tags.length > 0 && !scope.tags.some((glob) => (event.tags ?? []).some((tag) => matchesGlob(tag, glob)))) {
+      return false;
+    }
+    if (scope.fields.length > 0 && (event.field === undefined || !scope.fields.includes(event.field))) {
+      return false;
+    }
+
+    const text = this.filter.text.trim().toLowerCase();
+    if (text && !event.title.toLowerCase().includes(text) && !event.file?.path.toLowerCase().includes(text)) {
+      return false;
+    }
+
+    const tags = this.filter.tags.split(/[\s,]+/).filter((tag) => tag.replace(/^#/, ""));
+    if (tags.length > 0) {
+      return tags.some((glob) => (event.tags ?? []).some((tag) => matchesGlob(tag, glob)));
+    }
+    return true;
+  }
+
+  private renderHeatmapControls(container: HTMLElement): void {
+    const settings = this.settings;
+    const controls = container.createDiv({ cls: "linear-calendar-heatmap-controls" });
+
+    const toggle = controls.createEl("button", {
+      cls: "linear-calendar-scale-btn",
+      text: "Heatmap",
+      attr: { "aria-pressed": String(settings.heatmap), "aria-label": "Toggle heatmap mode" },
+    });
+    toggle.toggleClass("is-active", settings.heatmap);
+    toggle.addEventListener("click", () => {
+      this.updateSettings({ heatmap: !settings.heatmap });
+      this.render();
+    });
+
+    if (!settings.heatmap) {
+      return;
+    }
+
+    // Color scale legend: less ... more
+    const legend = controls.createDiv({ cls: "linear-calendar-heatmap-legend" });
+    legend.createSpan({ text: "0" });
+    for (let level = 0; level <= HEATMAP_LEVELS; level++) {
+      legend.createSpan({ cls: "linear-calendar-heatmap-swatch", attr: { "data-heat": String(level) } });
+    }
+    this.heatmapMaxEl = legend.createSpan({ text: this.formatHeatValue(this.heatmapMax) });
+    legend.setAttr("aria-label", HEATMAP_METRIC_LABELS[settings.heatmapMetric]);
+  }
+
+  private getHeatValue(date: Date): number {
+    const settings = this.settings;
+    const key = dateKey(date);
+    const events = [
+      ...this.plugin.eventIndex.getEventsForDay(key),
+      ...this.getRangeEventsForDay(date),
+    ].filter((event) => this.matchesFilter(event));
+
+    switch (settings.heatmapMetric) {
+      case "notes":
+        return this.plugin.eventIndex.getActivityCounts().get(key) ?? 0;
+      case "words":
+        return events.reduce((sum, event) => sum + (event.wordCount ?? 0), 0);
+      case "property": {
+        // Each note counts once per day, even with several events that day
+        const files = new Set(
+          events.map((event) => event.file).filter((file): file is TFile => file?.extension === "md")
+        );
+        let sum = 0;
+        files.forEach((file) => {
+          const value = Number(this.app.metadataCache.getFileCache(file)?.frontmatter?.[settings.heatmapProperty]);
+          if (Number.isFinite(value)) {
+            sum += value;
+          }
+        });
+        return sum;
+      }
+      default:
+        return events.length;
+    }
+  }
+
+  /**
+   * Recomputes the heat of the given days, or of every displayed day when
+   * none are given, and returns whether the maximum changed.
+   */
+  private updateHeatmapMax(keys?: string[]): boolean {
+    if (!this.settings.heatmap) {
+      this.heatValues.clear();
+      return false;
+    }
+    if (keys) {
+      for (const key of keys) {
+        if (this.heatValues.has(key)) {
+          this.heatValues.set(key, this.getHeatValue(moment(key, "YYYY-MM-DD").toDate()));
+        }
+      }
+    } else {
+      this.heatValues.clear();
+      for (const first of this.displayMonths) {
+        const daysInMonth = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+        for (let day = 1; day <= daysInMonth; day++) {
+          const date = new Date(first.getFullYear(), first.getMonth(), day);
+          this.heatValues.set(dateKey(date), this.getHeatValue(date));
+        }
+      }
+    }
+
+    let max = 0;
+    this.heatValues.forEach((value) => {
+      max = Math.max(max, value);
+    });
+    const changed = max !== this.heatmapMax;
+    this.heatmapMax = max;
+    this.heatmapMaxEl?.setText(this.formatHeatValue(max));
+    return changed;
+  }
+
+  private applyHeat(cell: HTMLElement, date: Date): void {
+    if (!this.settings.heatmap) {
+      cell.removeAttribute("data-heat");
+      return;
+    }
+    const value = this.heatValues.get(dateKey(date)) ?? this.getHeatValue(date);
+    const level = value > 0 && this.heatmapMax > 0
+      ? Math.max(1, Math.ceil((value / this.heatmapMax) * HEATMAP_LEVELS))
+      : 0;
+    cell.setAttr("data-heat", String(level));
+    cell.setAttr("data-heat-value", this.formatHeatValue(value));
+  }
+
+  private formatHeatValue(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  private renderLegend(container: HTMLElement): void {
+    const rules = this.settings.colorRules.filter((rule) => rule.match.trim());
+    if (rules.length === 0) {
+      return;
+    }
+
+    const legend = container.createDiv({ cls: "linear-calendar-legend" });
+    for (const rule of rules) {
+      const item = legend.createDiv({ cls: "linear-calendar-legend-item" });
+      const swatch = item.createSpan({ cls: "linear-calendar-legend-swatch" });
+      this.applyEventColor(swatch, rule.color);
+      item.createSpan({ text: rule.label.trim() || rule.match.trim() });
+    }
+  }
+
+  private applyEventColor(el: HTMLElement, color: string | undefined): void {
+    if (!color) {
+      return;
+    }
+    if (NAMED_EVENT_COLORS.includes(color.toLowerCase())) {
+      el.setAttr("data-color", color.toLowerCase());
+    } else {
+      el.style.setProperty("--event-color", color);
+    }
+  }
+
+  private renderScaleControls(container: HTMLElement): void {
+    const scaleContainer = container.createDiv({ cls: "linear-calendar-scale-controls" });
+
+    // X scale controls
+    const xGroup = scaleContainer.createDiv({ cls: "linear-calendar-scale-group" });
+    xGroup.createEl("span", { cls: "linear-calendar-scale-label", text: "Width" });
+
+    const xOutBtn = xGroup.createEl("button", {
+      cls: "linear-calendar-scale-btn",
+      attr: { "aria-label": "Decrease width" },
+    });
+    xOutBtn.setText("-");
+    xOutBtn.addEventListener("click", () => this.adjustScale("x", -0.2));
+
+    this.scaleValueEls.scaleX = xGroup.createEl("span", { cls: "linear-calendar-scale-value" });
+
+    const xInBtn = xGroup.createEl("button", {
+      cls: "linear-calendar-scale-btn",
+      attr: { "aria-label": "Increase width" },
+    });
+    xInBtn.setText("+");
+    xInBtn.addEventListener("click", () => this.adjustScale("x", 0.2));
+
+    // Y scale controls
+    const yGroup = scaleContainer.createDiv({ cls: "linear-calendar-scale-group" });
+    yGroup.createEl("span", { cls: "linear-calendar-scale-label", text: "Height" });
+
+    const yOutBtn = yGroup.createEl("button", {
+      cls: "linear-calendar-scale-btn",
+      attr: { "aria-label": "Decrease height" },
+    });
+    yOutBtn.setText("-");
+    yOutBtn.addEventListener("click", () => this.adjustScale("y", -0.2));
+
+    this.scaleValueEls.scaleY = yGroup.createEl("span", { cls: "linear-calendar-scale-value" });
+
+    const yInBtn = yGroup.createEl("button", {
+      cls: "linear-calendar-scale-btn",
+      attr: { "aria-label": "Increase height" },
+    });
+    yInBtn.setText("+");
+    yInBtn.addEventListener("click", () => this.adjustScale("y", 0.2));
+
+    // Font scale controls
+    const fontGroup = scaleContainer.createDiv({ cls: "linear-calendar-scale-group" });
+    fontGroup.createEl("span", { cls: "linear-calendar-scale-label", text: "Font" });
+
+    const fontOutBtn = fontGroup.createEl("button", {
+      cls: "linear-calendar-scale-btn",
+      attr: { "aria-label": "Decrease font size" },
+    });
+    fontOutBtn.setText("-");
+    fontOutBtn.addEventListener("click", () => this.adjustScale("font", -0.1));
+
+    this.scaleValueEls.fontScale = fontGroup.createEl("span", { cls: "linear-calendar-scale-value" });
+
+    const fontInBtn = fontGroup.createEl("button", {
+      cls: "linear-calendar-scale-btn",
+      attr: { "aria-label": "Increase font size" },
+    });
+    fontInBtn.setText("+");
+    fontInBtn.addEventListener("click", () => this.adjustScale("font", 0.1));
+
+    // Reset button
+    const resetBtn = scaleContainer.createEl("button", {
+      cls: "linear-calendar-scale-btn linear-calendar-scale-reset",
+      attr: { "aria-label": "Reset to defaults" },
+    });
+    resetBtn.setText("Reset");
+    resetBtn.addEventListener("click", () => {
+      const settings = this.settings;
+      this.updateState({
+        scaleX: settings.defaultScaleX,
+        scaleY: settings.defaultScaleY,
+        fontScale: settings.defaultFontScale,
+      });
+      this.applyScale();
+    });
+  }
+
+  private adjustScale(axis: "x" | "y" | "font", delta: number): void {
+    const key = axis === "x" ? "scaleX" : axis === "y" ? "scaleY" : "fontScale";
+    const newScale = this.clampScale(key, this.state[key] + delta);
+    this.updateState({ [key]: Math.round(newScale * 10) / 10 });
+    this.applyScale();
+  }
+
+  private clampScale(key: ScaleKey, value: number): number {
+    const max = key === "fontScale" ? 3 : 5;
+    return Math.max(0.5, Math.min(max, value));
+  }
+
+  /** Column of a date within its month row, counted from the configured week start */
+  private columnOffset(date: Date): number {
+    return (date.getDay() - this.settings.firstDayOfWeek + 7) % 7;
+  }
+
+  /** Weekday of a grid column, using getDay() numbering (0 = Sunday) */
+  private weekdayOfColumn(col: number): number {
+    return (this.settings.firstDayOfWeek + col) % 7;
+  }
+
+  private isWeekendColumn(col: number): boolean {
+    return this.settings.weekendDays.includes(this.weekdayOfColumn(col));
+  }
+
+  /** First day of every month row in the current range mode */
+  private getDisplayMonths(): Date[] {
+    const settings = this.settings;
+    const { year, rangeShift } = this.state;
+    let start: moment.Moment;
+    let count = 12;
+
+    switch (settings.rangeMode) {
+      case "fiscal":
+        start = moment({ year, month: settings.fiscalStartMonth, day: 1 });
+        break;
+      case "rolling":
+        count = settings.rollingMonths;
+        start = moment().startOf("month").add(rangeShift * count, "months");
+        break;
+      case "custom": {
+        const customStart = moment(settings.customStart, "YYYY-MM", true);
+        const customEnd = moment(settings.customEnd, "YYYY-MM", true);
+        if (customStart.isValid() && customEnd.isValid() && !customEnd.isBefore(customStart)) {
+          count = customEnd.diff(customStart, "months") + 1;
+          start = customStart.add(rangeShift * count, "months");
+        } else {
+          start = moment({ year, month: 0, day: 1 });
+        }
+        break;
+      }
+      default:
+        start = moment({ year, month: 0, day: 1 });
+    }
+
+    const months: Date[] = [];
+    for (let i = 0; i < Math.min(count, MAX_DISPLAY_MONTHS); i++) {
+      months.push(start.clone().add(i, "months").toDate());
+    }
+    return months;
+  }
+
+  private navigate(direction: number): void {
+    const { rangeMode } = this.settings;
+    if (rangeMode === "rolling" || rangeMode === "custom") {
+      this.updateState({ rangeShift: this.state.rangeShift + direction });
+    } else {
+      this.updateState({ year: this.state.year + direction });
+    }
+    this.renderRange();
+    this.announceRange();
+  }
+
+  private announceRange(): void {
+    const first = moment(this.displayMonths[0]);
+    const last = moment(this.displayMonths[this.displayMonths.length - 1]);
+    this.statusEl?.setText(`Showing ${first.format("MMMM YYYY")} to ${last.format("MMMM YYYY")}`);
+  }
+
+  private goToToday(): void {
+    this.updateState({ rangeShift: 0, year: this.currentYear() });
+    this.renderRange();
+    this.announceRange();
+  }
+
+  private calculateMaxColumns(months: Date[]): number {
+    let maxEndColumn = 0;
+    for (const firstDay of months) {
+      const daysInMonth = new Date(firstDay.getFullYear(), firstDay.getMonth() + 1, 0).getDate();
+      const offset = this.columnOffset(firstDay);
+      const endColumn = offset + daysInMonth;
+      if (endColumn > maxEndColumn) {
+        maxEndColumn = endColumn;
+      }
+    }
+    return maxEndColumn;
+  }
+
+  private renderYearSelector(container: HTMLElement): void {
+    const selector = container.createDiv({ cls: "linear-calendar-year-selector" });
+    const isCalendarYear = this.settings.rangeMode === "calendar";
+
+    const prevBtn = selector.createEl("button", {
+      cls: "linear-calendar-year-btn",
+      attr: {
+        "aria-label": isCalendarYear ? "Previous year" : "Previous period",
+      },
+    });
+    prevBtn.setText("<");
+    prevBtn.addEventListener("click", () => this.navigate(-1));
+
+    this.rangeLabelEl = selector.createEl("span", { cls: "linear-calendar-year-label" });
+
+    const nextBtn = selector.createEl("button", {
+      cls: "linear-calendar-year-btn",
+      attr: {
+        "aria-label": isCalendarYear ? "Next year" : "Next period",
+      },
+    });
+    nextBtn.setText(">");
+    nextBtn.addEventListener("click", () => this.navigate(1));
+
+    // Today button
+    const todayBtn = selector.createEl("button", {
+      cls: "linear-calendar-today-btn",
+      attr: {
+        "aria-label": isCalendarYear ? "Go to current year" : "Go to current period",
+      },
+    });
+    todayBtn.setText("Today");
+    todayBtn.addEventListener("click", () => this.goToToday());
+  }
+
+  private updateRangeLabel(): void {
+    const first = moment(this.displayMonths[0]);
+    const last = moment(this.displayMonths[this.displayMonths.length - 1]);
+    this.rangeLabelEl?.setText(
+      this.settings.rangeMode === "calendar"
+        ? String(first.year())
+        : `${first.format("MMM YYYY")} – ${last.format("MMM YYYY")}`
+    );
+  }
+
+  private renderWeekdayHeader(
+    grid: HTMLElement,
+    maxColumns: number,
+    labels: string[]
+  ): HTMLElement {
+    const row = grid.createDiv({
+      cls: "linear-calendar-row linear-calendar-header-row",
+      attr: { role: "row", "data-columns": String(maxColumns) },
+    });
+
+    // Empty cell for month label column
+    row.createDiv({ cls: "linear-calendar-month-label", attr: { role: "columnheader" } });
+
+    // Weekday labels repeating; labels are stored Monday-first
+    for (let col = 0; col < maxColumns; col++) {
+      const isWeekend = this.isWeekendColumn(col);
+      const cell = row.createDiv({
+        cls: `linear-calendar-header-cell ${isWeekend ? "linear-calendar-weekend" : ""}`,
+        attr: {
+          role: "columnheader",
+          "aria-label": WEEKDAY_NAMES[this.weekdayOfColumn(col)],
+        },
+      });
+      cell.setText(labels[(this.weekdayOfColumn(col) + 6) % 7]);
+    }
+    return row;
+  }
+
+  private renderMonth(
+    grid: HTMLElement,
+    year: number,
+    month: number,
+    maxColumns: number,
+    showYear: boolean
+  ): MonthRow {
+    const settings = this.settings;
+    const firstDay = new Date(year, month, 1);
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const offset = this.columnOffset(firstDay);
+
+    const row = grid.createDiv({ cls: "linear-calendar-row", attr: { role: "row" } });
+
+    // Month label
+    const monthLabel = row.createDiv({
+      cls: "linear-calendar-month-label",
+      attr: {
+        role: "rowheader",
+        "aria-label": moment(firstDay).format("MMMM YYYY"),
+        "data-month": dateKey(firstDay).slice(0, 7),
+      },
+    });
+    monthLabel.createSpan({ text: settings.monthLabels[month] });
+    if (showYear) {
+      monthLabel.createSpan({ cls: "linear-calendar-month-year", text: String(year) });
+    }
+    monthLabel.toggleClass(
+      "linear-calendar-has-note",
+      this.app.vault.getAbstractFileByPath(this.plugin.getPeriodicNotePath("month", firstDay)) instanceof TFile
+    );
+    monthLabel.setAttr("title", `Open the monthly note for ${moment(firstDay).format("MMMM YYYY")}`);
+
+    // Create all cells
+    const today = new Date();
+    const isCurrentYear = year === today.getFullYear();
+    const isCurrentMonth = isCurrentYear && month === today.getMonth();
+    const todayDate = today.getDate();
+
+    // Days container for positioning
+    const daysContainer = row.createDiv({
+      cls: "linear-calendar-days-container",
+      attr: { role: "none" },
+    });
+
+    // Empty cells before month starts
+    for (let col = 0; col < offset; col++) {
+      const isWeekend = this.isWeekendColumn(col);
+      daysContainer.createDiv({
+        cls: `linear-calendar-cell linear-calendar-empty ${isWeekend ? "linear-calendar-weekend" : ""}`,
+        attr: { role: "gridcell" },
+      });
+    }
+
+    // Day cells
+    for (let day = 1; day <= daysInMonth; day++) {
+      const col = offset + day - 1;
+      const isWeekend = this.isWeekendColumn(col);
+      const isToday = isCurrentMonth && day === todayDate;
+
+      const date = new Date(year, month, day);
+      const key = dateKey(date);
+
+      // Only one cell is tabbable at a time; arrow keys move between days.
+      // Contents are drawn once the row comes into view
+      const cell = daysContainer.createDiv({
+        cls: `linear-calendar-cell ${isWeekend ? "linear-calendar-weekend" : ""} ${isToday ? "linear-calendar-today" : ""}`,
+        attr: {
+          "data-date": key,
+          "aria-keyshortcuts": "I W M",
+          "aria-label": moment(date).format("dddd, LL"),
+          tabindex: key === this.focusedKey ? "0" : "-1",
+          role: "gridcell",
+        },
+      });
+      this.dayCells.set(key, cell);
+    }
+
+    // Empty cells after month ends
+    const totalCells = offset + daysInMonth;
+    for (let col = totalCells; col < maxColumns; col++) {
+      const isWeekend = this.isWeekendColumn(col);
+      daysContainer.createDiv({
+        cls: `linear-calendar-cell linear-calendar-empty ${isWeekend ? "linear-calendar-weekend" : ""}`,
+        attr: { role: "gridcell" },
+      });
+    }
+
+    return { el: row, daysContainer, year, month, offset, maxColumns, showYear, rendered: false };
+  }
+
+  private buildShadingMap(start: Date, end: Date): Map<string, DateShading[]> {
+    const byDay = new Map<string, DateShading[]>();
+    for (const shading of this.plugin.eventIndex.getShadings(start, end)) {
+      const last = moment.min(moment(shading.end), moment(end));
+      for (const day = moment.max(moment(shading.start), moment(start)); !day.isAfter(last, "day"); day.add(1, "day")) {
+        const key = dateKey(day.toDate());
+        byDay.set(key, [...(byDay.get(key) ?? []), shading]);
+      }
+    }
+    return byDay;
+  }
+
+  private applyShading(cell: HTMLElement, shadings: DateShading[]): void {
+    cell.toggleClass("linear-calendar-shaded", shadings.length > 0);
+    cell.toggleClass("linear-calendar-holiday", shadings.some((shading) => shading.holiday));
+
+    const color = shadings.find((shading) => shading.color)?.color;
+    if (color) {
+      const named = NAMED_EVENT_COLORS.includes(color.toLowerCase());
+      cell.style.setProperty("--shade-color", named ? `var(--color-${color.toLowerCase()})` : color);
+    } else {
+      cell.style.removeProperty("--shade-color");
+    }
+
+    if (shadings.length > 0) {
+      cell.setAttr("title", shadings.map((shading) => shading.name).join("\n"));
+    } else {
+      cell.removeAttribute("title");
+    }
+  }
+
+  /**
+   * Marks the ISO week on its Monday (and on the 1st, where a week continues
+   * from the previous month), and flags days whose week has a weekly note.
+   */
+  private renderWeekMarker(cell: HTMLElement, dayNumber: HTMLElement, date: Date): void {
+    const weekNotePath = this.plugin.getPeriodicNotePath("week", date);
+    const hasWeeklyNote = this.app.vault.getAbstractFileByPath(weekNotePath) instanceof TFile;
+    cell.toggleClass("linear-calendar-has-weekly-note", hasWeeklyNote);
+
+    if (!this.settings.showWeekNumbers || (date.getDay() !== 1 && date.getDate() !== 1)) {
+      return;
+    }
+    const week = moment(date).isoWeek();
+    const marker = dayNumber.createSpan({
+      cls: "linear-calendar-week-number",
+      text: `W${week}`,
+      attr: {
+        "aria-label": `Open the weekly note for week ${week}`,
+        tabindex: "-1",
+        role: "button",
+      },
+    });
+    marker.toggleClass("linear-calendar-has-note", hasWeeklyNote);
+  }
+
+  private renderDayContents(cell: HTMLElement, date: Date): void {
+    const dayEvents = this.plugin.eventIndex
+      .getEventsForDay(dateKey(date))
+      .filter((event) => this.matchesFilter(event));
+    cell.toggleClass("linear-calendar-has-events", dayEvents.length > 0);
+    this.applyHeat(cell, date);
+
+    const shadings = this.shadingByDay.get(dateKey(date)) ?? [];
+    this.applyShading(cell, shadings);
+
+    // Screen readers announce the day's events when the cell gets focus
+    const allEvents = [...this.getRangeEventsForDay(date), ...dayEvents];
+    const eventSummary = allEvents.length === 0
+      ? "no events"
+      : `${allEvents.length} ${allEvents.length === 1 ? "event" : "events"}: ${allEvents.map((e) => e.title).join(", ")}`;
+    const shadingSummary = shadings.map((shading) => `${shading.name}, `).join("");
+    cell.setAttr("aria-label", `${moment(date).format("dddd, LL")}, ${shadingSummary}${eventSummary}`);
+
+    // Day number
+    const dayNumber = cell.createDiv({ cls: "linear-calendar-day-number" });
+    dayNumber.setText(String(date.getDate()));
+    this.renderWeekMarker(cell, dayNumber, date);
+
+    // Holidays are labelled every day; ranges where they start and at each month start
+    const labels = shadings
+      .filter((shading) => shading.holiday || moment(date).isSame(shading.start, "day") || date.getDate() === 1)
+      .map((shading) => shading.name);
+    if (labels.length > 0) {
+      cell.createDiv({ cls: "linear-calendar-shading-label", text: labels.join(", ") });
+    }
+
+    // Events
+    if (dayEvents.length > 0) {
+      const eventsContainer = cell.createDiv({ cls: "linear-calendar-events" });
+      for (const event of dayEvents.slice(0, 3)) {
+        const eventEl = eventsContainer.createDiv({
+          cls: "linear-calendar-event",
+          attr: {
+            "aria-label": `Open ${event.title}`,
+            tabindex: "-1",
+            role: "button",
+          },
+        });
+        if (event.hasTime) {
+          eventEl.createSpan({ cls: "linear-calendar-event-time", text: moment(event.startDate).format("LT") });
+        }
+        eventEl.appendText(event.title);
+        eventEl.toggleClass("linear-calendar-task", event.source === "task");
+        eventEl.toggleClass("linear-calendar-ics", event.source === "ics");
+        eventEl.toggleClass("linear-calendar-recurring", event.recurrence !== undefined);
+        eventEl.toggleClass("linear-calendar-task-done", event.completed === true);
+        this.applyEventColor(eventEl, event.color);
+        this.eventEls.set(eventEl, event);
+        eventEl.setAttr("draggable", String(this.plugin.rescheduler.canReschedule(event)));
+      }
+      if (dayEvents.length > 3) {
+        const moreEl = eventsContainer.createDiv({
+          cls: "linear-calendar-more",
+          attr: {
+            "aria-label": `Show all ${dayEvents.length} events`,
+            tabindex: "-1",
+            role: "button",
+          },
+        });
+        moreEl.setText(`+${dayEvents.length - 3}`);
+      }
+    }
+  }
+
+  private getRangeEventsForDay(date: Date): CalendarEvent[] {
+    const day = moment(date).startOf("day").toDate();
+    return this.plugin.eventIndex
+      .getRangeEvents()
+      .filter((event) => event.startDate <= day && event.endDate !== undefined && event.endDate >= day)
+      .filter((event) => this.matchesFilter(event));
+  }
+
+  private openDayDetails(cell: HTMLElement, date: Date): void {
+    this.closeDayDetails(false);
+    const container = this.contentEl;
+    const events = [
+      ...this.getRangeEventsForDay(date),
+      ...this.plugin.eventIndex
+        .getEventsForDay(dateKey(date))
+        .filter((event) => this.matchesFilter(event)),
+    ];
+
+    const popover = container.createDiv({
+      cls: "linear-calendar-day-popover",
+      attr: { role: "dialog", "aria-label": moment(date).format("dddd, LL") },
+    });
+    this.dayPopover = { el: popover, anchor: cell };
+
+    const header = popover.createDiv({ cls: "linear-calendar-popover-header" });
+    header.createSpan({ cls: "linear-calendar-popover-date", text: moment(date).format("dddd, LL") });
+    const closeBtn = header.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": "Close" },
+    });
+    setIcon(closeBtn, "x");
+    closeBtn.addEventListener("click", () => this.closeDayDetails(true));
+
+    const list = popover.createDiv({ cls: "linear-calendar-popover-list" });
+    if (events.length === 0) {
+      list.createDiv({ cls: "linear-calendar-popover-empty", text: "No events" });
+    }
+    for (const event of events) {
+      this.renderDayDetailsItem(list, event);
+    }
+
+    // Place next to the cell, kept inside the view
+    const bounds = container.getBoundingClientRect();
+    const anchor = cell.getBoundingClientRect();
+    const left = Math.min(anchor.right - bounds.left + 4, bounds.width - popover.offsetWidth - 8);
+    const top = Math.min(anchor.top - bounds.top, bounds.height - popover.offsetHeight - 8);
+    popover.style.setProperty("left", `${Math.max(8, left)}px`);
+    popover.style.setProperty("top", `${Math.max(8, top)}px`);
+
+    popover.addEventListener("keydown", (ev) => {
+      if (ev.key === "Escape") {
+        ev.preventDefault();
+        ev.stopPropagation();
+        this.closeDayDetails(true);
+      }
+    });
+    popover.querySelector<HTMLElement>(".linear-calendar-popover-title")?.focus();
+  }
+
+  private renderDayDetailsItem(list: HTMLElement, event: CalendarEvent): void {
+    const item = list.createDiv({ cls: "linear-calendar-popover-event" });
+    const swatch = item.createDiv({ cls: "linear-calendar-legend-swatch" });
+    this.applyEventColor(swatch, event.color);
+
+    const body = item.createDiv({ cls: "linear-calendar-popover-body" });
+    const title = body.createEl("a", {
+      cls: "linear-calendar-popover-title",
+      text: event.title,
+      href: "#",
+    });
+    title.toggleClass("linear-calendar-task-done", event.completed === true);
+    title.addEventListener("click", (ev) => {
+      ev.preventDefault();
+      void this.openEvent(event, Keymap.isModEvent(ev));
+    });
+
+    const folder = event.file?.parent?.path ?? "";
+    const meta = [
+      ...(event.hasTime ? [moment(event.startDate).format("LT")] : []),
+      this.describeSource(event),
+      ...(event.file ? [folder && folder !== "/" ? folder : "Vault root"] : []),
+      ...(event.tags ?? []).map((tag) => `#${tag}`),
+    ];
+    body.createDiv({ cls: "linear-calendar-popover-meta", text: meta.join(" · ") });
+
+    const actions = item.createDiv({ cls: "linear-calendar-popover-actions" });
+    const tabBtn = actions.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": "Open in new tab" },
+    });
+    setIcon(tabBtn, "file-plus");
+    tabBtn.addEventListener("click", () => void this.openEvent(event, "tab"));
+
+    const splitBtn = actions.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": "Open to the right" },
+    });
+    setIcon(splitBtn, "separator-vertical");
+    splitBtn.addEventListener("click", () => void this.openEvent(event, "split"));
+  }
+
+  private describeSource(event: CalendarEvent): string {
+    if (event.recurrence) {
+      const { recurrence, ...single } = event;
+      return `${this.describeSource(single)}, repeats ${recurrence}`;
+    }
+    if (event.field && event.endField) {
+      return `${event.field} → ${event.endField}`;
+    }
+    if (event.field) {
+      return event.source === "task" ? `Task ${event.field}` : event.field;
+    }
+    if (event.source === "external") {
+      return this.getProviderName(event);
+    }
+    return SOURCE_LABELS[event.source];
+  }
+
+  private getProviderName(event: CalendarEvent): string {
+    const provider = event.provider ? this.plugin.eventIndex.getProvider(event.provider) : undefined;
+    return provider?.name ?? SOURCE_LABELS[event.source];
+  }
+
+  private closeDayDetails(restoreFocus: boolean): void {
+    if (!this.dayPopover) {
+      return;
+    }
+    const { el, anchor } = this.dayPopover;
+    this.dayPopover = null;
+    el.remove();
+    if (restoreFocus && anchor.isConnected) {
+      anchor.focus();
+    }
+  }
+
+  private renderRangeBars(monthRow: MonthRow): void {
+    const { daysContainer, year, month, offset } = monthRow;
+    daysContainer
+      .querySelectorAll(".linear-calendar-range-bar")
+      .forEach((bar) => bar.remove());
+
+    const monthStart = new Date(year, month, 1);
+    const monthEnd = new Date(year, month + 1, 0);
+
+    // Clip each range to this month's row
+    const segments: RangeSegment[] = [];
+    for (const event of this.plugin.eventIndex.getRangeEvents()) {
+      if (!this.matchesFilter(event)) {
+        continue;
+      }
+      if (!event.endDate || event.endDate < monthStart || event.startDate > monthEnd) {
+        continue;
+      }
+      const start = event.startDate < monthStart ? monthStart : event.startDate;
+      const end = event.endDate > monthEnd ? monthEnd : event.endDate;
+      segments.push({
+        event,
+        startCol: offset + start.getDate() - 1,
+        span: end.getDate() - start.getDate() + 1,
+        lane: 0,
+        continuesBefore: event.startDate < monthStart,
+        continuesAfter: event.endDate > monthEnd,
+      });
+    }
+
+    const laneCount = this.assignLanes(segments);
+    daysContainer.style.setProperty("--bar-lanes", String(laneCount));
+
+    for (const segment of segments) {
+      const { event } = segment;
+      const bar = daysContainer.createDiv({
+        cls: "linear-calendar-range-bar",
+        attr: {
+          "aria-label": `Open ${event.title}`,
+          tabindex: "-1",
+          role: "button",
+        },
+      });
+      bar.toggleClass("linear-calendar-range-continues-before", segment.continuesBefore);
+      bar.toggleClass("linear-calendar-range-continues-after", segment.continuesAfter);
+      bar.toggleClass("linear-calendar-ics", event.source === "ics");
+      bar.toggleClass("linear-calendar-recurring", event.recurrence !== undefined);
+      bar.style.setProperty("--bar-start", String(segment.startCol));
+      bar.style.setProperty("--bar-span", String(segment.span));
+      // The segment's first day, so a drag can tell which day the bar was grabbed by
+      bar.dataset.start = dateKey(new Date(year, month, segment.startCol - offset + 1));
+      bar.dataset.span = String(segment.span);
+      bar.style.setProperty("--bar-lane", String(segment.lane));
+      bar.setText(event.title);
+      this.applyEventColor(bar, event.color);
+      this.eventEls.set(bar, event);
+      bar.setAttr("draggable", String(this.plugin.rescheduler.canReschedule(event)));
+    }
+  }
+
+  private showDayMenu(ev: MouseEvent, date: Date): void {
+    const menu = new Menu();
+    const dailyNote = this.app.vault.getAbstractFileByPath(this.plugin.getPeriodicNotePath("day", date));
+
+    menu.addItem((item) =>
+      item
+        .setTitle(dailyNote instanceof TFile ? "Open daily note" : "Create daily note")
+        .setIcon("calendar")
+        .onClick(() => void this.openOrCreateNote("day", date))
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("New event here")
+        .setIcon("calendar-plus")
+        .onClick(() => void this.createEventNote(date, date))
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("Copy date")
+        .setIcon("copy")
+        .onClick(() => void this.copyText(dateKey(date)))
+    );
+
+    // Let other plugins add their items for an existing daily note
+    if (dailyNote instanceof TFile) {
+      menu.addSeparator();
+      this.app.workspace.trigger("file-menu", menu, dailyNote, "linear-calendar");
+    }
+    menu.showAtMouseEvent(ev);
+  }
+
+  private showEventMenu(position: { x: number; y: number }, event: CalendarEvent): void {
+    const menu = new Menu();
+    const { file } = event;
+    const rescheduler = this.plugin.rescheduler;
+
+    menu.addItem((item) =>
+      item
+        .setTitle("Open in new tab")
+        .setIcon("file-plus")
+        .onClick(() => void this.openEvent(event, "tab"))
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("Open to the right")
+        .setIcon("separator-vertical")
+        .onClick(() => void this.openEvent(event, "split"))
+    );
+
+    if (file) {
+      menu.addSeparator();
+      menu.addItem((item) =>
+        item
+          .setTitle("Reveal in file explorer")
+          .setIcon("folder-open")
+          .onClick(() => this.revealInFileExplorer(file))
+      );
+      menu.addItem((item) =>
+        item
+          .setTitle("Copy wiki-link")
+          .setIcon("link")
+          .onClick(() => void this.copyText(`[[${this.app.metadataCache.fileToLinktext(file, "")}]]`))
+      );
+    }
+
+    if (rescheduler.canReschedule(event) || rescheduler.canRemoveDate(event)) {
+      menu.addSeparator();
+    }
+    if (rescheduler.canReschedule(event)) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Reschedule…")
+          .setIcon("calendar-clock")
+          .onClick(async () => {
+            const target = await new DatePromptModal(this.app, `Reschedule ${event.title}`, event.startDate).prompt();
+            if (target) {
+              await rescheduler.reschedule(event, target);
+            }
+          })
+      );
+    }
+    if (rescheduler.canRemoveDate(event)) {
+      menu.addItem((item) =>
+        item
+          .setTitle(`Remove date (${event.field})`)
+          .setIcon("calendar-x")
+          .onClick(() => void rescheduler.removeDate(event))
+      );
+    }
+
+    // Calendar files hold many events, so only notes can be deleted from here
+    if (file?.extension === "md") {
+      menu.addItem((item) =>
+        item
+          .setTitle("Delete note")
+          .setIcon("trash")
+          .setWarning(true)
+          .onClick(() => void this.app.fileManager.promptForDeletion(file))
+      );
+    }
+
+    if (file) {
+      menu.addSeparator();
+      this.app.workspace.trigger("file-menu", menu, file, "linear-calendar");
+    }
+    menu.showAtPosition(position);
+  }
+
+  private revealInFileExplorer(file: TFile): void {
+    const internalPlugins = (this.app as App & { internalPlugins?: InternalPlugins }).internalPlugins;
+    const explorer = internalPlugins?.getPluginById("file-explorer");
+    if (!explorer?.enabled || !explorer.instance?.revealInFolder) {
+      new Notice("The file explorer core plugin is turned off");
+      return;
+    }
+    explorer.instance.revealInFolder(file);
+  }
+
+  private async copyText(text: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(text);
+      new Notice(`Copied ${text}`);
+    } catch (error) {
+      console.error("Linear Calendar: failed to copy to the clipboard", error);
+      new Notice("Could not copy to the clipboard");
+    }
+  }
+
+  private setFocusedDay(key: string): void {
+    if (this.focusedKey && this.focusedKey !== key) {
+      this.dayCells.get(this.focusedKey)?.setAttr("tabindex", "-1");
+    }
+    this.focusedKey = key;
+    this.dayCells.get(key)?.setAttr("tabindex", "0");
+  }
+
+  private handleCellKeydown(ev: KeyboardEvent, cell: HTMLElement, date: Date): void {
+    if (ev.target !== cell) {
+      return;
+    }
+    switch (ev.key) {
+      case "Enter":
+      case " ":
+        ev.preventDefault();
+        void this.openOrCreateNote("day", date);
+        return;
+      case "i":
+        ev.preventDefault();
+        this.openDayDetails(cell, date);
+        return;
+      case "w":
+        ev.preventDefault();
+        void this.openOrCreateNote("week", date);
+        return;
+      case "m":
+        ev.preventDefault();
+        void this.openOrCreateNote("month", date);
+        return;
+      case "ArrowLeft":
+        this.moveFocus(ev, moment(date).subtract(1, "day").toDate());
+        return;
+      case "ArrowRight":
+        this.moveFocus(ev, moment(date).add(1, "day").toDate());
+        return;
+      case "ArrowUp":
+        this.moveFocus(ev, this.sameColumnInMonth(date, -1));
+        return;
+      case "ArrowDown":
+        this.moveFocus(ev, this.sameColumnInMonth(date, 1));
+        return;
+      case "PageUp":
+      case "PageDown": {
+        ev.preventDefault();
+        const direction = ev.key === "PageUp" ? -1 : 1;
+        const isShifted = this.settings.rangeMode === "rolling" || this.settings.rangeMode === "custom";
+        const months = isShifted ? this.displayMonths.length : 12;
+        this.focusedKey = dateKey(moment(date).add(direction * months, "months").toDate());
+        this.pendingFocus = true;
+        this.navigate(direction);
+        return;
+      }
+      case "Home":
+        ev.preventDefault();
+        this.focusedKey = dateKey(new Date());
+        this.pendingFocus = true;
+        this.goToToday();
+        return;
+    }
+  }
+
+  /**
+   * The day in the month row above or below that sits in the same column,
+   * or the nearest day with the same weekday when that column is empty.
+   */
+  private sameColumnInMonth(date: Date, direction: number): Date {
+    const col = this.columnOffset(new Date(date.getFullYear(), date.getMonth(), 1)) + date.getDate() - 1;
+    const first = new Date(date.getFullYear(), date.getMonth() + direction, 1);
+    const offset = this.columnOffset(first);
+    const daysInMonth = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+
+    let day = col - offset + 1;
+    while (day < 1) {
+      day += 7;
+    }
+    while (day > daysInMonth) {
+      day -= 7;
+    }
+    return new Date(first.getFullYear(), first.getMonth(), day);
+  }
+
+  private moveFocus(ev: KeyboardEvent, target: Date): void {
+    ev.preventDefault();
+    const key = dateKey(target);
+    const cell = this.dayCells.get(key);
+    if (cell) {
+      this.setFocusedDay(key);
+      cell.focus();
+      return;
+    }
+
+    // Past the edge of the displayed range: page over and keep going
+    this.focusedKey = key;
+    this.pendingFocus = true;
+    this.navigate(target < this.displayMonths[0] ? -1 : 1);
+  }
+
+  /** Dragging a pill or bar onto another day reschedules its event */
+  private registerDragListeners(container: HTMLElement, inGrid: (ev: Event) => HTMLElement | null): void {
+    this.registerDomEvent(container, "dragstart", (ev) => {
+      const el = inGrid(ev)?.closest<HTMLElement>(".linear-calendar-event, .linear-calendar-range-bar");
+      const event = el ? this.eventEls.get(el) : undefined;
+      if (!el || !event) {
+        return;
+      }
+      this.draggedEvent = event;
+      this.dragOrigin = this.grabbedDay(el, ev);
+      ev.dataTransfer?.setData("text/plain", event.title);
+      // Let drops pass through other pills and bars to the cell below
+      this.gridEl?.addClass("linear-calendar-dragging");
+    });
+    this.registerDomEvent(container, "dragend", () => {
+      this.draggedEvent = null;
+      this.dragOrigin = null;
+      this.gridEl?.removeClass("linear-calendar-dragging");
+    });
+    this.registerDomEvent(container, "dragover", (ev) => {
+      const day = this.draggedEvent ? this.dayOfEvent(ev, inGrid) : null;
+      if (day) {
+        ev.preventDefault();
+        day.cell.addClass("linear-calendar-drop-target");
+      }
+    });
+    this.registerDomEvent(container, "dragleave", (ev) => {
+      this.dayOfEvent(ev, inGrid)?.cell.removeClass("linear-calendar-drop-target");
+    });
+    this.registerDomEvent(container, "drop", (ev) => {
+      const day = this.dayOfEvent(ev, inGrid);
+      day?.cell.removeClass("linear-calendar-drop-target");
+      const event = this.draggedEvent;
+      if (day && event) {
+        ev.preventDefault();
+        this.draggedEvent = null;
+        void this.plugin.rescheduler.reschedule(event, day.date, this.dragOrigin ?? undefined);
+      }
+    });
+  }
+
+  /** The day under the pointer on a pill, or on the part of a bar's segment it was grabbed by */
+  private grabbedDay(el: HTMLElement, ev: MouseEvent): Date | null {
+    const { start, span } = el.dataset;
+    if (!start || !span) {
+      return this.dayOf(el)?.date ?? null;
+    }
+    const rect = el.getBoundingClientRect();
+    const days = Number(span);
+    const index = Math.min(days - 1, Math.max(0, Math.floor(((ev.clientX - rect.left) / rect.width) * days)));
+    return moment(start, "YYYY-MM-DD").add(index, "days").toDate();
+  }
+
+  private dayOfEvent(ev: Event, inGrid: (ev: Event) => HTMLElement | null): { cell: HTMLElement; date: Date } | null {
+    const target = inGrid(ev);
+    return target ? this.dayOf(target) : null;
+  }
+
+  /**
+   * Pinching the grid zooms it, a long press on a day opens its details, and a
+   * horizontal swipe across the header moves to the previous or next range.
+   * One-finger scrolling is left to the browser.
+   */
+  private registerTouchGestures(container: HTMLElement, inGrid: (ev: Event) => HTMLElement | null): void {
+    this.registerDomEvent(container, "touchstart", (ev) => {
+      this.cancelLongPress();
+      const target = ev.target instanceof HTMLElement ? ev.target : null;
+      const wrapper = this.gridEl?.parentElement;
+
+      if (ev.touches.length === 2 && wrapper && target && wrapper.contains(target)) {
+        const [a, b] = [ev.touches[0], ev.touches[1]];
+        const dx = Math.abs(a.clientX - b.clientX);
+        const dy = Math.abs(a.clientY - b.clientY);
+        const angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+        const bounds = wrapper.getBoundingClientRect();
+        this.gesture = {
+          kind: "pinch",
+          axis: angle < 30 ? "x" : angle > 60 ? "y" : "both",
+          dx,
+          dy,
+          distance: Math.hypot(dx, dy),
+          scaleX: this.state.scaleX,
+          scaleY: this.state.scaleY,
+          anchorX: wrapper.scrollLeft + (a.clientX + b.clientX) / 2 - bounds.left,
+          anchorY: wrapper.scrollTop + (a.clientY + b.clientY) / 2 - bounds.top,
+        };
+        return;
+      }
+      if (ev.touches.length !== 1) {
+        this.gesture = null;
+        return;
+      }
+
+      const touch = ev.touches[0];
+      const gridTarget = inGrid(ev);
+      const eventEl = gridTarget?.closest<HTMLElement>(".linear-calendar-event, .linear-calendar-range-bar");
+      const event = eventEl ? this.eventEls.get(eventEl) : undefined;
+      const day = gridTarget ? this.dayOf(gridTarget) : null;
+      if (event || day) {
+        const gesture = { kind: "press" as const, x: touch.clientX, y: touch.clientY, timer: 0, fired: false };
+        // On an event the press opens its menu, as a right-click would
+        gesture.timer = window.setTimeout(() => {
+          gesture.fired = true;
+          if (event) {
+            this.showEventMenu({ x: gesture.x, y: gesture.y }, event);
+          } else if (day) {
+            this.openDayDetails(day.cell, day.date);
+          }
+        }, LONG_PRESS_MS);
+        this.gesture = gesture;
+      } else if (target?.closest(".linear-calendar-header")) {
+        this.gesture = { kind: "swipe", x: touch.clientX, y: touch.clientY };
+      } else {
+        this.gesture = null;
+      }
+    });
+
+    this.registerDomEvent(container, "touchmove", (ev) => {
+      const gesture = this.gesture;
+      if (gesture?.kind === "press") {
+        const touch = ev.touches[0];
+        if (Math.hypot(touch.clientX - gesture.x, touch.clientY - gesture.y) > LONG_PRESS_TOLERANCE) {
+          this.cancelLongPress();
+          this.gesture = null;
+        }
+        return;
+      }
+      if (gesture?.kind !== "pinch" || ev.touches.length !== 2) {
+        return;
+      }
+      // Keep the browser from scrolling while the grid zooms
+      ev.preventDefault();
+      this.updatePinch(gesture, ev.touches[0], ev.touches[1]);
+    }, { passive: false });
+
+    this.registerDomEvent(container, "touchend", (ev) => {
+      const gesture = this.gesture;
+      if (gesture?.kind === "press") {
+        this.cancelLongPress();
+        // No click (and so no daily note) after the details opened
+        if (gesture.fired) {
+          ev.preventDefault();
+        }
+        this.gesture = null;
+      } else if (gesture?.kind === "swipe") {
+        this.gesture = null;
+        const touch = ev.changedTouches[0];
+        const dx = touch.clientX - gesture.x;
+        const dy = touch.clientY - gesture.y;
+        if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > 2 * Math.abs(dy)) {
+          this.navigate(dx < 0 ? 1 : -1);
+        }
+      } else if (gesture?.kind === "pinch" && ev.touches.length < 2) {
+        this.gesture = null;
+        this.updateState({ scaleX: this.state.scaleX, scaleY: this.state.scaleY });
+      }
+    });
+
+    this.registerDomEvent(container, "touchcancel", () => {
+      if (this.gesture?.kind === "pinch") {
+        this.updateState({ scaleX: this.state.scaleX, scaleY: this.state.scaleY });
+      }
+      this.cancelLongPress();
+      this.gesture = null;
+    });
+  }
+
+  private updatePinch(gesture: Extract<TouchGesture, { kind: "pinch" }>, a: Touch, b: Touch): void {
+    const wrapper = this.gridEl?.parentElement;
+    if (!wrapper) {
+      return;
+    }
+    const dx = Math.abs(a.clientX - b.clientX);
+    const dy = Math.abs(a.clientY - b.clientY);
+    const ratio = Math.hypot(dx, dy) / gesture.distance;
+    const ratioX = gesture.axis === "y" ? 1 : gesture.axis === "x" ? dx / gesture.dx : ratio;
+    const ratioY = gesture.axis === "x" ? 1 : gesture.axis === "y" ? dy / gesture.dy : ratio;
+    if (!Number.isFinite(ratioX) || !Number.isFinite(ratioY)) {
+      return;
+    }
+
+    // Only the CSS variables change; the state is saved when the pinch ends
+    this.state.scaleX = Math.round(this.clampScale("scaleX", gesture.scaleX * ratioX) * 100) / 100;
+    this.state.scaleY = Math.round(this.clampScale("scaleY", gesture.scaleY * ratioY) * 100) / 100;
+    this.applyScale();
+
+    // Scroll so the content that started between the fingers stays there
+    const bounds = wrapper.getBoundingClientRect();
+    wrapper.scrollLeft = gesture.anchorX * (this.state.scaleX / gesture.scaleX) - ((a.clientX + b.clientX) / 2 - bounds.left);
+    wrapper.scrollTop = gesture.anchorY * (this.state.scaleY / gesture.scaleY) - ((a.clientY + b.clientY) / 2 - bounds.top);
+  }
+
+  private cancelLongPress(): void {
+    if (this.gesture?.kind === "press") {
+      window.clearTimeout(this.gesture.timer);
+    }
+  }
+
+  /** Pressing on a day and moving across others selects them for a new event */
+  private registerSelectionListeners(container: HTMLElement, inGrid: (ev: Event) => HTMLElement | null): void {
+    this.registerDomEvent(container, "pointerdown", (ev) => {
+      // Pills and markers keep their own click and drag behaviour
+      const target = inGrid(ev);
+      const day = target ? this.dayOf(target) : null;
+      if (!day || ev.button !== 0 || ev.pointerType === "touch" || target?.closest(".linear-calendar-event, .linear-calendar-week-number")) {
+        return;
+      }
+      this.selection = { anchor: day.date, current: day.date };
+    });
+    this.registerDomEvent(container, "pointerover", (ev) => {
+      const day = this.selection ? this.dayOfEvent(ev, inGrid) : null;
+      if (!this.selection || !day || moment(day.date).isSame(this.selection.current, "day")) {
+        return;
+      }
+      this.selection.current = day.date;
+      // Until the pointer leaves the first day this is still a plain click
+      this.gridEl?.addClass("linear-calendar-selecting");
+      this.highlightSelection();
+    });
+  }
+
+  private highlightSelection(): void {
+    this.clearSelection();
+    if (!this.selection) {
+      return;
+    }
+    const { anchor, current } = this.selection;
+    const last = moment.max(moment(anchor), moment(current));
+    for (const day = moment.min(moment(anchor), moment(current)); !day.isAfter(last, "day"); day.add(1, "day")) {
+      const key = dateKey(day.toDate());
+      this.dayCells.get(key)?.addClass("linear-calendar-selected");
+      this.selectedKeys.push(key);
+    }
+  }
+
+  private clearSelection(): void {
+    for (const key of this.selectedKeys) {
+      this.dayCells.get(key)?.removeClass("linear-calendar-selected");
+    }
+    this.selectedKeys = [];
+    this.gridEl?.removeClass("linear-calendar-selecting");
+  }
+
+  private finishSelection(): void {
+    const selection = this.selection;
+    if (!selection) {
+      return;
+    }
+    this.selection = null;
+    if (moment(selection.anchor).isSame(selection.current, "day")) {
+      this.clearSelection();
+      return;
+    }
+    // The days stay highlighted while the prompt is open
+    void this.createEventNote(selection.anchor, selection.current).finally(() => this.clearSelection());
+  }
+
+  /**
+   * Asks for a title and creates a note for the days from the event template,
+   * with the first range field pair (or the first date field, for a single
+   * day without one) set to the dates.
+   */
+  private async createEventNote(from: Date, to: Date): Promise<void> {
+    const start = from <= to ? from : to;
+    const end = from <= to ? to : from;
+    const title = await new NewEventModal(this.app, start, end).prompt();
+    if (!title) {
+      return;
+    }
+
+    const settings = this.settings;
+    const name = title.replace(/[\\/:*?"<>|#^[\]]/g, "").trim() || "Untitled event";
+    const folder = settings.eventNotesFolder ? normalizePath(settings.eventNotesFolder) : "";
+    let path = folder ? `${folder}/${name}.md` : `${name}.md`;
+    for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+      path = folder ? `${folder}/${name} ${n}.md` : `${name} ${n}.md`;
+    }
+
+    try {
+      if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+      const content = await this.readNoteTemplate(
+        { folder, format: "YYYY-MM-DD", template: settings.eventNoteTemplate },
+        start,
+        name
+      );
+      const file = await this.app.vault.create(path, content);
+      const rangeField = settings.rangeFields[0];
+      const isSingleDay = moment(start).isSame(end, "day");
+      await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+        if (rangeField) {
+          frontmatter[rangeField.start] = moment(start).format("YYYY-MM-DD");
+          if (!isSingleDay) {
+            frontmatter[rangeField.end] = moment(end).format("YYYY-MM-DD");
+          }
+        } else {
+          frontmatter[settings.dateFields[0] ?? "date"] = moment(start).format("YYYY-MM-DD");
+        }
+      });
+      await this.openFile(file);
+    } catch (error) {
+      console.error("Linear Calendar: failed to create event note", error);
+      new Notice(`Could not create ${path}`);
+    }
+  }
+
+  private assignLanes(segments: RangeSegment[]): number {
+    // Earliest first, longer bars first on ties, so long ranges stay on top
+    segments.sort((a, b) => a.startCol - b.startCol || b.span - a.span);
+
+    const laneEnds: number[] = [];
+    for (const segment of segments) {
+      let lane = laneEnds.findIndex((end) => end < segment.startCol);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(0);
+      }
+      laneEnds[lane] = segment.startCol + segment.span - 1;
+      segment.lane = lane;
+    }
+    return laneEnds.length;
+  }
+
+  async exportIcs(): Promise<void> {
+    const stamp = moment.utc().format("YYYYMMDDTHHmmss[Z]");
+    const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Linear Calendar//Obsidian//EN", "CALSCALE:GREGORIAN"];
+    const events = this.getDisplayedEvents();
+    // Occurrences of a recurring entry share its UID, and calendar apps would merge them,
+    // so a UID given to more than one event gets each one's date appended
+    const uidCounts = new Map<string, number>();
+    events.forEach((event) => {
+      if (event.uid) {
+        uidCounts.set(event.uid, (uidCounts.get(event.uid) ?? 0) + 1);
+      }
+    });
+    const usedUids = new Set<string>();
+
+    for (const event of events) {
+      const start = moment(event.startDate);
+      // All-day DTEND is exclusive
+      const end = moment(event.endDate ?? event.startDate).add(1, "day");
+      const origin = event.file?.path ?? this.getProviderName(event);
+      const base = event.uid && (uidCounts.get(event.uid) ?? 0) > 1
+        ? `${event.uid}#${start.format("YYYYMMDD")}`
+        : event.uid ?? `${origin}#${event.field ?? event.source}#${start.format("YYYYMMDD")}`;
+      let uid = base;
+      for (let n = 2; usedUids.has(uid); n++) {
+        uid = `${base}-${n}`;
+      }
+      usedUids.add(uid);
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${escapeIcsText(uid)}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${start.format("YYYYMMDD")}`,
+        `DTEND;VALUE=DATE:${end.format("YYYYMMDD")}`,
+        `SUMMARY:${escapeIcsText(event.title)}`,
+        `DESCRIPTION:${escapeIcsText(origin)}`,
+        "END:VEVENT"
+      );
+    }
+    lines.push("END:VCALENDAR");
+
+    const content = lines.map(foldIcsLine).join("\r\n") + "\r\n";
+    await this.writeExport("ics", content);
+  }
+
+  async exportImage(format: "svg" | "png"): Promise<void> {
+    const image = this.buildSvg();
+    if (!image) {
+      return;
+    }
+    if (format === "svg") {
+      await this.writeExport("svg", image.svg);
+      return;
+    }
+
+    try {
+      await this.writeExport("png", await this.rasterize(image));
+    } catch (error) {
+      console.error("Linear Calendar: failed to export PNG", error);
+      new Notice("Could not export the calendar as PNG");
+    }
+  }
+
+  async exportPrintable(): Promise<void> {
+    const image = this.buildSvg();
+    if (!image) {
+      return;
+    }
+    const title = escapeXml(`Linear calendar ${this.getExportLabel()}`);
+    const html = [
+      "<!DOCTYPE html>",
+      '<html><head><meta charset="utf-8">',
+      `<title>${title}</title>`,
+      "<style>",
+      "@page { size: A4 landscape; margin: 10mm; }",
+      "body { margin: 0; font-family: sans-serif; }",
+      "h1 { font-size: 14pt; margin: 0 0 4mm; }",
+      "svg { display: block; width: 100%; height: auto; max-height: 175mm; }",
+      "</style></head><body>",
+      `<h1>${title}</h1>`,
+      image.svg,
+      "</body></html>",
+    ].join("\n");
+    await this.writeExport("html", html);
+  }
+
+  /** Every event shown in the current range, after the view's filter */
+  private getDisplayedEvents(): CalendarEvent[] {
+    const events = new Set<CalendarEvent>();
+    const first = this.displayMonths[0];
+    const lastMonth = this.displayMonths[this.displayMonths.length - 1];
+    if (!first || !lastMonth) {
+      return [];
+    }
+    const last = moment(lastMonth).endOf("month");
+
+    for (const day = moment(first); !day.isAfter(last); day.add(1, "day")) {
+      for (const event of this.plugin.eventIndex.getEventsForDay(dateKey(day.toDate()))) {
+        if (this.matchesFilter(event)) {
+          events.add(event);
+        }
+      }
+    }
+    for (const event of this.plugin.eventIndex.getRangeEvents()) {
+      const overlaps = event.startDate <= last.toDate() && (event.endDate ?? event.startDate) >= first;
+      if (overlaps && this.matchesFilter(event)) {
+        events.add(event);
+      }
+    }
+    return Array.from(events).sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  /**
+   * Redraws the rendered grid as SVG from each element's layout box and
+   * computed colors, so the export matches the current scale, colors and filter.
+   */
+  private buildSvg(): { svg: string; width: number; height: number } | null {
+    this.drawAllRows();
+    const grid = this.gridEl;
+    const wrapper = grid?.parentElement;
+    if (!grid || !wrapper) {
+      return null;
+    }
+
+    // Sticky headers only sit in their natural place when unscrolled
+    const { scrollLeft, scrollTop } = wrapper;
+    wrapper.scrollTo(0, 0);
+
+    const origin = grid.getBoundingClientRect();
+    const width = Math.ceil(grid.scrollWidth);
+    const height = Math.ceil(grid.scrollHeight);
+    const parts: string[] = [];
+    const background = getComputedStyle(this.contentEl).getPropertyValue("--background-primary").trim() || "#ffffff";
+    parts.push(`<rect width="${width}" height="${height}" fill="${escapeXml(background)}"/>`);
+
+    grid.querySelectorAll<HTMLElement>("*").forEach((el) => {
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) {
+        return;
+      }
+      const style = getComputedStyle(el);
+      const fill = isVisibleColor(style.backgroundColor) ? style.backgroundColor : "none";
+      const strokeWidth = parseFloat(style.borderTopWidth) || 0;
+      const stroke = strokeWidth > 0 && isVisibleColor(style.borderTopColor) ? style.borderTopColor : "none";
+      if (fill === "none" && stroke === "none") {
+        return;
+      }
+      const dash = style.borderTopStyle === "dashed" ? ' stroke-dasharray="3 2"' : "";
+      parts.push(
+        `<rect x="${rect.left - origin.left}" y="${rect.top - origin.top}" width="${rect.width}" height="${rect.height}"` +
+          ` rx="${parseFloat(style.borderTopLeftRadius) || 0}" fill="${fill}" stroke="${stroke}"` +
+          ` stroke-width="${strokeWidth}"${dash} opacity="${style.opacity}"/>`
+      );
+    });
+
+    // Text is clipped to its element through a nested <svg> viewport
+    const walker = document.createTreeWalker(grid, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const parent = node.parentElement;
+      const text = node.textContent?.trim();
+      if (!parent || !text) {
+        continue;
+      }
+      const box = parent.getBoundingClientRect();
+      range.selectNodeContents(node);
+      const textBox = range.getBoundingClientRect();
+      if (box.width === 0 || textBox.width === 0) {
+        continue;
+      }
+      const style = getComputedStyle(parent);
+      const fontSize = parseFloat(style.fontSize);
+      parts.push(
+        `<svg x="${box.left - origin.left}" y="${box.top - origin.top}" width="${box.width}" height="${box.height}">` +
+          `<text x="${textBox.left - box.left}" y="${textBox.top - box.top + fontSize * 0.9}"` +
+          ` font-size="${fontSize}" font-family="${escapeXml(style.fontFamily)}" font-weight="${style.fontWeight}"` +
+          ` font-style="${style.fontStyle}" fill="${style.color}" opacity="${style.opacity}">${escapeXml(text)}</text></svg>`
+      );
+    }
+
+    wrapper.scrollTo(scrollLeft, scrollTop);
+
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      parts.join("") +
+      "</svg>";
+    return { svg, width, height };
+  }
+
+  private async rasterize(image: { svg: string; width: number; height: number }): Promise<ArrayBuffer> {
+    const url = URL.createObjectURL(new Blob([image.svg], { type: "image/svg+xml" }));
+    try {
+      const img = new Image();
+      await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = reject;
+        img.src = url;
+      });
+
+      // Render at double resolution so the image stays sharp when zoomed
+      const canvas = createEl("canvas");
+      canvas.width = image.width * 2;
+      canvas.height = image.height * 2;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error("Canvas is not available");
+      }
+      context.scale(2, 2);
+      context.drawImage(img, 0, 0);
+
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+      if (!blob) {
+        throw new Error("PNG encoding failed");
+      }
+      return await blob.arrayBuffer();
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private getExportLabel(): string {
+    const first = moment(this.displayMonths[0]);
+    const last = moment(this.displayMonths[this.displayMonths.length - 1]);
+    if (this.settings.rangeMode === "calendar") {
+      return String(first.year());
+    }
+    return `${first.format("YYYY-MM")} to ${last.format("YYYY-MM")}`;
+  }
+
+  private async writeExport(extension: string, data: string | ArrayBuffer): Promise<void> {
+    const folder = this.settings.exportFolder;
+    const path = normalizePath(`${folder}/Linear calendar ${this.getExportLabel()}.${extension}`);
+
+    try {
+      if (folder && !this.app.vault.getAbstractFileByPath(normalizePath(folder))) {
+        await this.app.vault.createFolder(normalizePath(folder));
+      }
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        if (typeof data === "string") {
+          await this.app.vault.modify(existing, data);
+        } else {
+          await this.app.vault.modifyBinary(existing, data);
+        }
+      } else if (typeof data === "string") {
+        await this.app.vault.create(path, data);
+      } else {
+        await this.app.vault.createBinary(path, data);
+      }
+      new Notice(`Exported to ${path}`);
+    } catch (error) {
+      console.error("Linear Calendar: export failed", error);
+      new Notice(`Could not write ${path}`);
+    }
+  }
+
+  private async openEvent(event: CalendarEvent, paneType: PaneType | boolean = false): Promise<void> {
+    if (event.onClick) {
+      event.onClick(paneType);
+    } else if (event.source === "ics") {
+      await this.openIcsEvent(event, paneType);
+    } else if (event.file) {
+      await this.openFile(event.file, event.line, paneType);
+    }
+  }
+
+  /** Opens the note linked to a calendar file event, offering to create it first */
+  private async openIcsEvent(event: CalendarEvent, paneType: PaneType | boolean): Promise<void> {
+    const settings = this.settings;
+    const day = moment(event.startDate).format("YYYY-MM-DD");
+    const name = `${event.title} ${day}`.replace(/[\\/:*?"<>|#^[\]]/g, "").trim();
+    const folder = settings.icsNotesFolder;
+    const path = folder ? `${folder}/${name}.md` : `${name}.md`;
+
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.openFile(existing, undefined, paneType);
+      return;
+    }
+
+    const confirmed = await new ConfirmModal(
+      this.app,
+      "Create linked note",
+      `Create a note for "${event.title}" on ${moment(event.startDate).format("ll")}?`,
+      "Create"
+    ).confirm();
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+      const file = await this.app.vault.create(path, "");
+      const rangeField = settings.rangeFields[0];
+      await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+        if (event.endDate && rangeField) {
+          frontmatter[rangeField.start] = day;
+          frontmatter[rangeField.end] = moment(event.endDate).format("YYYY-MM-DD");
+        } else {
+          frontmatter[settings.dateFields[0] ?? "date"] = day;
+        }
+        if (event.uid) {
+          frontmatter["ics-uid"] = event.uid;
+        }
+      });
+      await this.openFile(file, undefined, paneType);
+    } catch (error) {
+      console.error("Linear Calendar: failed to create linked note", error);
+      new Notice(`Could not create ${path}`);
+    }
+  }
+
+  private async openFile(
+    file: TFile,
+    line?: number,
+    paneType: PaneType | boolean = false
+  ): Promise<void> {
+    const leaf = this.app.workspace.getLeaf(paneType);
+    await leaf.openFile(file, line !== undefined ? { eState: { line } } : undefined);
+  }
+
+  private async openOrCreateNote(period: NotePeriod, date: Date): Promise<void> {
+    const config = this.plugin.getPeriodicNoteConfig(period);
+    const filename = moment(date).format(config.format);
+    const path = this.plugin.getPeriodicNotePath(period, date);
+    const label = NOTE_PERIOD_LABELS[period];
+
+    let file = this.app.vault.getAbstractFileByPath(path);
+
+    if (file instanceof TFile) {
       await this.openFile(file);
     } else {
+      const isoPeriod = period === "week" ? "isoWeek" : period;
+      if (this.settings.confirmNoteCreation && !moment(date).isSame(moment(), isoPeriod)) {
+        const confirmed = await new ConfirmModal(
+          this.app,
+          `Create ${label} note`,
+          `There is no ${label} note for ${this.describePeriod(period, date)} yet. Create ${filename}?`,
+          "Create"
+        ).confirm();
+        if (!confirmed) {
+          return;
+        }
+      }
+
       // Create the file
       try {
-        if (folder) {
-          const folderExists = this.app.vault.getAbstractFileByPath(folder);
-          if (!folderExists) {
-            await this.app.vault.createFolder(folder);
-          }
+        // The format may put the note in subfolders; its title is only the note's own name
+        const content = await this.readNoteTemplate(config, date, filename.slice(filename.lastIndexOf("/") + 1));
+        // Create every missing parent folder
+        const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+        if (parent && !this.app.vault.getAbstractFileByPath(parent)) {
+          await this.app.vault.createFolder(parent);
         }
-        const newFile = await this.app.vault.create(path, "");
+        const newFile = await this.app.vault.create(path, content);
         await this.openFile(newFile);
       } catch {
         // File might already exist, try to open it
@@ -628,65 +5014,568 @@ class LinearCalendarView extends ItemView {
     }
   }
 
-  async onClose(): Promise<void> {
-    // Cleanup handled by registerEvent
-  }
-}
+  private describePeriod(period: NotePeriod, date: Date): string {
+    switch (period) {
+      case "day":
+        return moment(date).format("LL");
+      case "week":
+        return `week ${moment(date).isoWeek()} of ${moment(date).isoWeekYear()}`;
+      case "month":
+        return moment(date).format("MMMM YYYY");
+    }
+  }
+
+  private async readNoteTemplate(config: PeriodicNoteConfig, date: Date, title: string): Promise<string> {
+    if (!config.template) {
+      return "";
+    }
+    // Core settings store the template without its extension
+    const linkpath = config.template.replace(/\.md$/, "");
+    const template = this.app.metadataCache.getFirstLinkpathDest(linkpath, "");
+    if (!template) {
+      new Notice(`Template not found: ${config.template}`);
+      return "";
+    }
+    const content = await this.app.vault.cachedRead(template);
+    return expandTemplate(content, date, title, config.format);
+  }
+
+  onunload(): void {
+    // Event cleanup handled by registerEvent
+    this.scheduleUpdate.cancel();
+    this.cancelLongPress();
+    this.gesture = null;
+    this.rowObserver?.disconnect();
+    this.statusEl?.remove();
+  }
+}
+
+class LinearCalendarView extends ItemView {
+  plugin: LinearCalendarPlugin;
+  calendar: LinearCalendar | null = null;
+  private filter: Partial<CalendarFilter> = {};
+  private state: Partial<CalendarViewState>;
+
+  constructor(leaf: WorkspaceLeaf, plugin: LinearCalendarPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.state = plugin.takeLegacyViewState();
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_LINEAR_CALENDAR;
+  }
+
+  getDisplayText(): string {
+    return "Linear calendar";
+  }
+
+  getIcon(): string {
+    return "calendar-days";
+  }
+
+  async onOpen(): Promise<void> {
+    this.calendar = this.addChild(new LinearCalendar(this.plugin, this.contentEl, {
+      state: this.state,
+      filter: this.filter,
+      onStateChange: () => this.app.workspace.requestSaveLayout(),
+    }));
+  }
+
+  getState(): Record<string, unknown> {
+    return {
+      ...super.getState(),
+      filter: this.calendar?.getFilter() ?? this.filter,
+      ...(this.calendar?.getViewState() ?? this.state),
+    };
+  }
+
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const saved = (state ?? {}) as Partial<CalendarViewState> & { filter?: Partial<CalendarFilter> };
+    if (saved.filter) {
+      this.filter = saved.filter;
+      this.calendar?.setFilter(saved.filter);
+    }
+    const viewState: Partial<CalendarViewState> = {};
+    for (const key of VIEW_STATE_KEYS) {
+      if (typeof saved[key] === "number") {
+        viewState[key] = saved[key];
+      }
+    }
+    if (Object.keys(viewState).length > 0) {
+      Object.assign(this.state, viewState);
+      this.calendar?.setViewState(viewState);
+    }
+    await super.setState(state, result);
+  }
+
+  async onClose(): Promise<void> {
+    if (this.calendar) {
+      this.removeChild(this.calendar);
+      this.calendar = null;
+    }
+  }
+}
+
+class ConfirmModal extends Modal {
+  private title: string;
+  private message: string;
+  private confirmText: string;
+  private resolve: ((confirmed: boolean) => void) | null = null;
+
+  constructor(app: App, title: string, message: string, confirmText: string) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.confirmText = confirmText;
+  }
+
+  confirm(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    this.contentEl.createEl("p", { text: this.message });
+
+    new Setting(this.contentEl)
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(this.confirmText)
+          .setCta()
+          .onClick(() => {
+            this.resolve?.(true);
+            this.resolve = null;
+            this.close();
+          })
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolve?.(false);
+    this.resolve = null;
+  }
+}
+
+/** Asks for the title of a new event note spanning the given days */
+class NewEventModal extends Modal {
+  private start: Date;
+  private end: Date;
+  private resolve: ((title: string | null) => void) | null = null;
+
+  constructor(app: App, start: Date, end: Date) {
+    super(app);
+    this.start = start;
+    this.end = end;
+  }
+
+  prompt(): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    const days = moment(this.end).diff(moment(this.start), "days") + 1;
+    this.titleEl.setText("New event");
+    this.contentEl.createEl("p", {
+      text: days === 1
+        ? moment(this.start).format("dddd, LL")
+        : `${moment(this.start).format("LL")} – ${moment(this.end).format("LL")} (${days} days)`,
+    });
+
+    let title = "";
+    const submit = () => {
+      if (!title.trim()) {
+        return;
+      }
+      this.resolve?.(title.trim());
+      this.resolve = null;
+      this.close();
+    };
+    new Setting(this.contentEl).setName("Title").addText((text) => {
+      text.setPlaceholder("Event title").onChange((value) => {
+        title = value;
+      });
+      text.inputEl.addEventListener("keydown", (ev) => {
+        if (ev.key === "Enter") {
+          ev.preventDefault();
+          submit();
+        }
+      });
+      window.setTimeout(() => text.inputEl.focus());
+    });
+
+    new Setting(this.contentEl)
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button.setButtonText("Create").setCta().onClick(submit)
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolve?.(null);
+    this.resolve = null;
+  }
+}
+
+/** Asks for a single day, starting from the given one */
+class DatePromptModal extends Modal {
+  private title: string;
+  private initial: Date;
+  private resolve: ((date: Date | null) => void) | null = null;
+
+  constructor(app: App, title: string, initial: Date) {
+    super(app);
+    this.title = title;
+    this.initial = initial;
+  }
+
+  prompt(): Promise<Date | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+
+    let value = moment(this.initial).format("YYYY-MM-DD");
+    const submit = () => {
+      const date = moment(value, "YYYY-MM-DD", true);
+      if (!date.isValid()) {
+        return;
+      }
+      this.resolve?.(date.toDate());
+      this.resolve = null;
+      this.close();
+    };
+    new Setting(this.contentEl).setName("Date").addText((text) => {
+      text.inputEl.type = "date";
+      text.setValue(value).onChange((changed) => {
+        value = changed;
+      });
+      text.inputEl.addEventListener("keydown", (ev) => {
+        if (ev.key === "Enter") {
+          ev.preventDefault();
+          submit();
+        }
+      });
+    });
+
+    new Setting(this.contentEl)
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button.setButtonText("Move").setCta().onClick(submit)
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolve?.(null);
+    this.resolve = null;
+  }
+}
+
+/** Lists the notes whose configured date fields couldn't be read, linking to each */
+class DateIssuesModal extends Modal {
+  private plugin: LinearCalendarPlugin;
+  private issues: Map<string, DateIssue[]>;
+
+  constructor(plugin: LinearCalendarPlugin, issues: Map<string, DateIssue[]>) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.issues = issues;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Date parsing issues");
+    if (this.issues.size === 0) {
+      this.contentEl.createEl("p", { text: "Every configured date field was read." });
+      return;
+    }
+    this.contentEl.createEl("p", {
+      text: `${this.issues.size} ${this.issues.size === 1 ? "note has" : "notes have"} values that don't match their date formats. Fix the value, or add its format in the settings.`,
+    });
+
+    const list = this.contentEl.createEl("ul", { cls: "linear-calendar-date-issues" });
+    for (const [path, issues] of this.issues) {
+      const item = list.createEl("li");
+      const link = item.createEl("a", { text: path, href: "#" });
+      link.addEventListener("click", (ev) => {
+        ev.preventDefault();
+        const file = this.app.vault.getFileByPath(path);
+        if (!file) {
+          return;
+        }
+        const line = issues[0].line;
+        this.close();
+        void this.app.workspace
+          .getLeaf(Keymap.isModEvent(ev))
+          .openFile(file, line !== undefined ? { eState: { line } } : undefined);
+      });
+
+      const details = item.createEl("ul");
+      for (const issue of issues) {
+        const where = issue.line !== undefined ? `${issue.field} (line ${issue.line + 1})` : issue.field;
+        details.createEl("li", {
+          text: `${where}: "${issue.value}", expected ${this.plugin.getDateFormats(issue.field).join(" or ")}`,
+        });
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class LinearCalendarSettingTab extends PluginSettingTab {
+  plugin: LinearCalendarPlugin;
+
+  constructor(app: App, plugin: LinearCalendarPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  hide(): void {
+    // Source and color settings affect every file, so re-extract once on close
+    void this.plugin.eventIndex.rebuild();
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl).setName("Daily notes").setHeading();
+
+    new Setting(containerEl)
+      .setName("Use core Daily Notes settings")
+      .setDesc("Take the folder, date format and template from the core Daily Notes plugin while it is enabled")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useCoreDailyNotes)
+          .onChange(async (value) => {
+            this.plugin.settings.useCoreDailyNotes = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (!this.plugin.settings.useCoreDailyNotes) {
+      this.displayDailyNoteSettings(containerEl);
+    }
+
+    new Setting(containerEl)
+      .setName("Confirm before creating notes")
+      .setDesc("Ask before creating a daily, weekly or monthly note for any period other than the current one")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.confirmNoteCreation)
+          .onChange(async (value) => {
+            this.plugin.settings.confirmNoteCreation = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Periodic notes").setHeading();
+
+    new Setting(containerEl)
+      .setName("Show week numbers")
+      .setDesc("Mark each ISO week in the grid. Click a week number to open its weekly note, or a month label to open its monthly note")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showWeekNumbers)
+          .onChange(async (value) => {
+            this.plugin.settings.showWeekNumbers = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.displayPeriodicNoteSettings(containerEl, "Weekly", {
+      folder: "weeklyNotesFolder",
+      format: "weeklyNoteFormat",
+      template: "weeklyNoteTemplate",
+    });
+    this.displayPeriodicNoteSettings(containerEl, "Monthly", {
+      folder: "monthlyNotesFolder",
+      format: "monthlyNoteFormat",
+      template: "monthlyNoteTemplate",
+    });
+
+    new Setting(containerEl).setName("Event sources").setHeading();
+
+    new Setting(containerEl)
+      .setName("Show daily notes")
+      .setDesc("Show daily notes on the date in their filename")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showDailyNotes)
+          .onChange(async (value) => {
+            this.plugin.settings.showDailyNotes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Show frontmatter dates")
+      .setDesc("Show notes on the dates and ranges in their frontmatter fields")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showFrontmatterDates)
+          .onChange(async (value) => {
+            this.plugin.settings.showFrontmatterDates = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Date fields")
+      .setDesc("Frontmatter fields to check for dates (comma-separated). A list of dates adds an event for each")
+      .addText((text) =>
+        text
+          .setPlaceholder("Date, created, due")
+          .setValue(this.plugin.settings.dateFields.join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.dateFields = value
+              .split(",")
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Date range fields")
+      .setDesc("Start/end frontmatter field pairs drawn as multi-day bars (comma-separated)")
+      .addText((text) =>
+        text
+          .setPlaceholder("E.g., start/end, from/to")
+          .setValue(
+            this.plugin.settings.rangeFields
+              .map((field) => `${field.start}/${field.end}`)
+              .join(", ")
+          )
+          .onChange(async (value) => {
+            this.plugin.settings.rangeFields = value
+              .split(",")
+              .map((pair) => pair.split("/").map((s) => s.trim()))
+              .filter((parts) => parts.length === 2 && parts[0] && parts[1])
+              .map(([start, end]) => ({ start, end }));
+            await this.plugin.saveSettings();
+          })
+      );
 
-class LinearCalendarSettingTab extends PluginSettingTab {
-  plugin: LinearCalendarPlugin;
+    this.displayDateFormats(containerEl);
 
-  constructor(app: App, plugin: LinearCalendarPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
-  }
+    new Setting(containerEl)
+      .setName("Repeat field")
+      .setDesc("Frontmatter field that makes a note's dates repeat: daily, weekly, monthly, yearly, \"every 2 weeks\" or an RRULE. Narrow it with <field>-interval, <field>-until and <field>-except (leave empty to turn off)")
+      .addText((text) =>
+        text
+          .setPlaceholder("repeat")
+          .setValue(this.plugin.settings.repeatField)
+          .onChange(async (value) => {
+            this.plugin.settings.repeatField = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
+    new Setting(containerEl)
+      .setName("Show task dates")
+      .setDesc("Show tasks on their 📅 due, ⏳ scheduled and 🛫 start dates")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showTaskDates)
+          .onChange(async (value) => {
+            this.plugin.settings.showTaskDates = value;
+            await this.plugin.saveSettings();
+          })
+      );
 
-    new Setting(containerEl).setName("Daily notes").setHeading();
+    new Setting(containerEl)
+      .setName("Inline date fields")
+      .setDesc(
+        "Inline fields like [due:: 2026-11-03] to read from note bodies (comma-separated). Leave empty to skip reading notes without tasks"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("E.g., due, scheduled")
+          .setValue(this.plugin.settings.inlineDateFields.join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.inlineDateFields = value
+              .split(",")
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
 
     new Setting(containerEl)
-      .setName("Daily notes folder")
-      .setDesc("Folder where daily notes are stored (leave empty for vault root)")
+      .setName("Calendar files")
+      .setDesc("Vault paths or globs of .ics files to show, e.g. Calendars/**.ics (comma-separated)")
       .addText((text) =>
         text
-          .setPlaceholder("Daily")
-          .setValue(this.plugin.settings.dailyNotesFolder)
+          .setPlaceholder("E.g., Calendars/team.ics")
+          .setValue(this.plugin.settings.icsPaths.join(", "))
           .onChange(async (value) => {
-            this.plugin.settings.dailyNotesFolder = value;
+            this.plugin.settings.icsPaths = value
+              .split(",")
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("Daily note format")
-      .setDesc("Date format for daily note filenames (moment.js format)")
+      .setName("Calendar notes folder")
+      .setDesc("Where notes created from calendar file events are stored (leave empty for vault root)")
       .addText((text) =>
         text
-          .setPlaceholder("E.g., YYYY-MM-DD")
-          .setValue(this.plugin.settings.dailyNoteFormat)
+          .setPlaceholder("Meetings")
+          .setValue(this.plugin.settings.icsNotesFolder)
           .onChange(async (value) => {
-            this.plugin.settings.dailyNoteFormat = value;
+            this.plugin.settings.icsNotesFolder = value.trim();
             await this.plugin.saveSettings();
           })
       );
 
-    new Setting(containerEl).setName("Event sources").setHeading();
+    new Setting(containerEl)
+      .setName("Event notes folder")
+      .setDesc("Where notes created by drag-selecting days or shift-clicking a day are stored (leave empty for vault root)")
+      .addText((text) =>
+        text
+          .setPlaceholder("Events")
+          .setValue(this.plugin.settings.eventNotesFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.eventNotesFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
 
     new Setting(containerEl)
-      .setName("Date fields")
-      .setDesc("Frontmatter fields to check for dates (comma-separated)")
+      .setName("Event note template")
+      .setDesc("Note used as the content of new event notes, with {{title}}, {{date}} (the first day) and {{time}} filled in")
       .addText((text) =>
         text
-          .setPlaceholder("Date, created, due")
-          .setValue(this.plugin.settings.dateFields.join(", "))
+          .setPlaceholder("Templates/Event")
+          .setValue(this.plugin.settings.eventNoteTemplate)
           .onChange(async (value) => {
-            this.plugin.settings.dateFields = value
-              .split(",")
-              .map((s) => s.trim())
-              .filter((s) => s.length > 0);
+            this.plugin.settings.eventNoteTemplate = value.trim();
             await this.plugin.saveSettings();
           })
       );
@@ -703,8 +5592,155 @@ class LinearCalendarSettingTab extends PluginSettingTab {
           })
       );
 
+    // Sources registered by other plugins through registerEventProvider()
+    for (const provider of this.plugin.eventIndex.getProviders()) {
+      new Setting(containerEl)
+        .setName(`Show ${provider.name}`)
+        .setDesc(`Events supplied by another plugin (${provider.id})`)
+        .addToggle((toggle) =>
+          toggle
+            .setValue(!this.plugin.settings.disabledProviders.includes(provider.id))
+            .onChange(async (value) => {
+              const disabled = this.plugin.settings.disabledProviders.filter((id) => id !== provider.id);
+              this.plugin.settings.disabledProviders = value ? disabled : [...disabled, provider.id];
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Filters")
+      .setDesc("Globs like Templates, Archive/**, or project/*. Includes apply only when set")
+      .setHeading();
+
+    this.addGlobListSetting(containerEl, "Include folders", "Only show notes in these folders", "includeFolders");
+    this.addGlobListSetting(containerEl, "Exclude folders", "Hide notes in these folders", "excludeFolders");
+    this.addGlobListSetting(containerEl, "Include tags", "Only show notes with these tags", "includeTags");
+    this.addGlobListSetting(containerEl, "Exclude tags", "Hide notes with these tags", "excludeTags");
+
+    this.displayColorRules(containerEl);
+    this.displayShadingSettings(containerEl);
+
     new Setting(containerEl).setName("Display").setHeading();
 
+    new Setting(containerEl)
+      .setName("Range")
+      .setDesc("Which months the view shows as rows")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            calendar: "Calendar year",
+            fiscal: "Fiscal year",
+            rolling: "Rolling months from today",
+            custom: "Custom start and end",
+          })
+          .setValue(this.plugin.settings.rangeMode)
+          .onChange(async (value) => {
+            this.plugin.settings.rangeMode = value as RangeMode;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.rangeMode === "fiscal") {
+      new Setting(containerEl)
+        .setName("Fiscal year start")
+        .setDesc("Month the fiscal year begins in")
+        .addDropdown((dropdown) => {
+          this.plugin.settings.monthLabels.forEach((label, month) =>
+            dropdown.addOption(String(month), label)
+          );
+          dropdown
+            .setValue(String(this.plugin.settings.fiscalStartMonth))
+            .onChange(async (value) => {
+              this.plugin.settings.fiscalStartMonth = parseInt(value, 10);
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    if (this.plugin.settings.rangeMode === "rolling") {
+      new Setting(containerEl)
+        .setName("Rolling months")
+        .setDesc(`Number of months shown, starting with the current month (1-${MAX_DISPLAY_MONTHS})`)
+        .addText((text) =>
+          text
+            .setPlaceholder("12")
+            .setValue(String(this.plugin.settings.rollingMonths))
+            .onChange(async (value) => {
+              const num = parseInt(value, 10);
+              if (!isNaN(num) && num >= 1 && num <= MAX_DISPLAY_MONTHS) {
+                this.plugin.settings.rollingMonths = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    if (this.plugin.settings.rangeMode === "custom") {
+      new Setting(containerEl)
+        .setName("Custom range")
+        .setDesc("First and last month shown (YYYY-MM)")
+        .addText((text) =>
+          text
+            .setPlaceholder("2026-01")
+            .setValue(this.plugin.settings.customStart)
+            .onChange(async (value) => {
+              this.plugin.settings.customStart = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("2027-12")
+            .setValue(this.plugin.settings.customEnd)
+            .onChange(async (value) => {
+              this.plugin.settings.customEnd = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("First day of week")
+      .setDesc("Weekday shown in the first column of every month")
+      .addDropdown((dropdown) => {
+        // List Monday first, matching the weekday labels below
+        for (const day of [1, 2, 3, 4, 5, 6, 0]) {
+          dropdown.addOption(String(day), WEEKDAY_NAMES[day]);
+        }
+        dropdown
+          .setValue(String(this.plugin.settings.firstDayOfWeek))
+          .onChange(async (value) => {
+            this.plugin.settings.firstDayOfWeek = parseInt(value, 10);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Weekend days")
+      .setDesc("Days shaded as weekend (comma-separated)")
+      .addText((text) =>
+        text
+          .setPlaceholder("E.g., Sat, Sun")
+          .setValue(
+            this.plugin.settings.weekendDays
+              .map((day) => WEEKDAY_NAMES[day].slice(0, 3))
+              .join(", ")
+          )
+          .onChange(async (value) => {
+            const days = value
+              .split(",")
+              .map((s) => s.trim().slice(0, 3).toLowerCase())
+              .filter((s) => s.length > 0)
+              .map((s) => WEEKDAY_NAMES.findIndex((name) => name.slice(0, 3).toLowerCase() === s));
+            if (days.every((day) => day !== -1)) {
+              this.plugin.settings.weekendDays = days;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
     new Setting(containerEl)
       .setName("Weekday labels")
       .setDesc("Labels for weekdays starting Monday (comma-separated)")
@@ -743,6 +5779,48 @@ class LinearCalendarSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Heatmap metric")
+      .setDesc("What the day color shows in heatmap mode")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(HEATMAP_METRIC_LABELS)
+          .setValue(this.plugin.settings.heatmapMetric)
+          .onChange(async (value) => {
+            this.plugin.settings.heatmapMetric = value as HeatmapMetric;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.heatmapMetric === "property") {
+      new Setting(containerEl)
+        .setName("Heatmap property")
+        .setDesc("Numeric frontmatter property summed over the notes on each day")
+        .addText((text) =>
+          text
+            .setPlaceholder("E.g., mood, hours")
+            .setValue(this.plugin.settings.heatmapProperty)
+            .onChange(async (value) => {
+              this.plugin.settings.heatmapProperty = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Export folder")
+      .setDesc("Where exported calendars and images are saved (leave empty for vault root)")
+      .addText((text) =>
+        text
+          .setPlaceholder("Exports")
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl).setName("Default sizes").setHeading();
 
     new Setting(containerEl)
@@ -793,4 +5871,359 @@ class LinearCalendarSettingTab extends PluginSettingTab {
           })
       );
   }
+
+  private displayDailyNoteSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("Daily notes folder")
+      .setDesc("Folder where daily notes are stored (leave empty for vault root)")
+      .addText((text) =>
+        text
+          .setPlaceholder("Daily")
+          .setValue(this.plugin.settings.dailyNotesFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.dailyNotesFolder = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Daily note format")
+      .setDesc("Date format for daily note filenames (moment.js format)")
+      .addText((text) =>
+        text
+          .setPlaceholder("E.g., YYYY-MM-DD")
+          .setValue(this.plugin.settings.dailyNoteFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.dailyNoteFormat = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Daily note template")
+      .setDesc("Note used as the content of new daily notes. {{title}}, {{date}} and {{time}} are filled in, optionally with a format like {{date:dddd}}")
+      .addText((text) =>
+        text
+          .setPlaceholder("Templates/Daily")
+          .setValue(this.plugin.settings.dailyNoteTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.dailyNoteTemplate = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private displayPeriodicNoteSettings(
+    containerEl: HTMLElement,
+    label: string,
+    keys: Record<keyof PeriodicNoteConfig, PeriodicNoteSettingKey>
+  ): void {
+    const settings = this.plugin.settings;
+    const fields: { key: keyof PeriodicNoteConfig; name: string; desc: string }[] = [
+      { key: "folder", name: `${label} notes folder`, desc: "Leave empty for vault root" },
+      { key: "format", name: `${label} note format`, desc: "Moment.js format for the filename" },
+      { key: "template", name: `${label} note template`, desc: "Note copied into new notes, with the same placeholders as daily notes" },
+    ];
+
+    for (const field of fields) {
+      new Setting(containerEl)
+        .setName(field.name)
+        .setDesc(field.desc)
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_SETTINGS[keys[field.key]] || "")
+            .setValue(settings[keys[field.key]])
+            .onChange(async (value) => {
+              settings[keys[field.key]] = value.trim() || DEFAULT_SETTINGS[keys[field.key]];
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+  }
+
+  private addGlobListSetting(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    key: "includeFolders" | "excludeFolders" | "includeTags" | "excludeTags"
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(`${desc} (comma-separated)`)
+      .addText((text) =>
+        text
+          .setValue(this.plugin.settings[key].join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings[key] = value
+              .split(",")
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private displayDateFormats(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+    const toFormats = (value: string): string[] =>
+      value
+        .split("\n")
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0);
+
+    new Setting(containerEl)
+      .setName("Date formats")
+      .setDesc("Formats a date value must match exactly, tried in order (one per line). A wiki-link to a daily note is also read with the daily note format")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("YYYY-MM-DD")
+          .setValue(settings.dateFormats.join("\n"))
+          .onChange(async (value) => {
+            settings.dateFormats = toFormats(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    settings.fieldDateFormats.forEach((entry, index) => {
+      new Setting(containerEl)
+        .setClass("linear-calendar-color-rule")
+        .addText((text) =>
+          text
+            .setPlaceholder("Field")
+            .setValue(entry.field)
+            .onChange(async (value) => {
+              entry.field = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addTextArea((text) =>
+          text
+            .setPlaceholder("DD.MM.YYYY")
+            .setValue(entry.formats.join("\n"))
+            .onChange(async (value) => {
+              entry.formats = toFormats(value);
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete field formats")
+            .onClick(async () => {
+              settings.fieldDateFormats.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl)
+      .setDesc("Fields whose values are written differently can have their own formats")
+      .addButton((button) =>
+        button.setButtonText("Add field formats").onClick(async () => {
+          settings.fieldDateFormats.push({ field: "", formats: [] });
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+  }
+
+  private displayShadingSettings(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+
+    new Setting(containerEl)
+      .setName("Holidays and shaded ranges")
+      .setDesc("Shown as background shading and labels, separate from note events")
+      .setHeading();
+
+    for (const [id, set] of Object.entries(HOLIDAY_SETS)) {
+      new Setting(containerEl)
+        .setName(`${set.label} holidays`)
+        .addToggle((toggle) =>
+          toggle
+            .setValue(settings.holidaySets.includes(id))
+            .onChange(async (value) => {
+              const others = settings.holidaySets.filter((s) => s !== id);
+              settings.holidaySets = value ? [...others, id] : others;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Shading file")
+      .setDesc("CSV file or note with one \"name, start, end, color\" range per line (dates as YYYY-MM-DD)")
+      .addText((text) =>
+        text
+          .setPlaceholder("Calendars/School breaks.csv")
+          .setValue(settings.shadingFile)
+          .onChange(async (value) => {
+            settings.shadingFile = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    settings.shadedRanges.forEach((range, index) => {
+      new Setting(containerEl)
+        .setClass("linear-calendar-color-rule")
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(range.name)
+            .onChange(async (value) => {
+              range.name = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Start (YYYY-MM-DD)")
+            .setValue(range.start)
+            .onChange(async (value) => {
+              range.start = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("End (YYYY-MM-DD)")
+            .setValue(range.end)
+            .onChange(async (value) => {
+              range.end = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addColorPicker((picker) =>
+          picker.setValue(range.color).onChange(async (value) => {
+            range.color = value;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete range")
+            .onClick(async () => {
+              settings.shadedRanges.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add shaded range").onClick(async () => {
+        settings.shadedRanges.push({ name: "", start: "", end: "", color: "#9b59b6" });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
+
+  private displayColorRules(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+
+    new Setting(containerEl)
+      .setName("Event colors")
+      .setDesc("Rules are checked top to bottom; the first match colors the event")
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Color field")
+      .setDesc("Frontmatter field that overrides the rule color for a single note")
+      .addText((text) =>
+        text
+          .setPlaceholder("Color")
+          .setValue(settings.colorField)
+          .onChange(async (value) => {
+            settings.colorField = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    settings.colorRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setClass("linear-calendar-color-rule")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions({
+              tag: "Tag",
+              folder: "Folder",
+              property: "Property",
+              source: "Source",
+            })
+            .setValue(rule.type)
+            .onChange(async (value) => {
+              rule.type = value as ColorRuleType;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("E.g., #project, work/, status=done, task")
+            .setValue(rule.match)
+            .onChange(async (value) => {
+              rule.match = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Legend label")
+            .setValue(rule.label)
+            .onChange(async (value) => {
+              rule.label = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addColorPicker((picker) =>
+          picker.setValue(rule.color).onChange(async (value) => {
+            rule.color = value;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              settings.colorRules.splice(index, 1);
+              settings.colorRules.splice(index - 1, 0, rule);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(index === settings.colorRules.length - 1)
+            .onClick(async () => {
+              settings.colorRules.splice(index, 1);
+              settings.colorRules.splice(index + 1, 0, rule);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete rule")
+            .onClick(async () => {
+              settings.colorRules.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add color rule").onClick(async () => {
+        settings.colorRules.push({ type: "tag", match: "", color: "#4a90d9", label: "" });
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
 }